@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { AsyncResult } from "./async-result";
+import { Result } from "./result";
+
+describe("AsyncResult", () => {
+  // Example functions that return Results, for use in the following tests
+  const sqrt = (x: number): Result<number, string> =>
+    x < 0
+      ? Result.err("Cannot calculate square root of negative number")
+      : Result.ok(Math.sqrt(x));
+
+  const sqrtAsync = async (x: number): Promise<Result<number, string>> =>
+    sqrt(x);
+
+  it("should resolve to an ok result when awaited", async () => {
+    const result = await AsyncResult.ok(5);
+    expect(Result.isOk(result)).toBe(true);
+    expect(result.unwrap()).toBe(5);
+  });
+
+  it("should resolve to an err result when awaited", async () => {
+    const result = await AsyncResult.err("error");
+    expect(Result.isErr(result)).toBe(true);
+    !result.isOk && expect(result.error).toBe("error");
+  });
+
+  it("should lift an existing result with fromResult", async () => {
+    const result = await AsyncResult.fromResult(sqrt(4));
+    expect(result.unwrap()).toBe(2);
+  });
+
+  it("should lift a promise of a result with fromResult", async () => {
+    const result = await AsyncResult.fromResult(sqrtAsync(-1));
+    expect(result.isOk).toBe(false);
+  });
+
+  describe("fromPromise", () => {
+    it("should wrap a resolved value in an Ok", async () => {
+      const result = await Result.fromPromise(Promise.resolve(5), String);
+      expect(result.unwrap()).toBe(5);
+    });
+
+    it("should map a rejection to an Err", async () => {
+      const result = await Result.fromPromise(
+        Promise.reject(new Error("boom")),
+        (error) => (error instanceof Error ? error.message : "unknown")
+      );
+      expect(result.isOk).toBe(false);
+      !result.isOk && expect(result.error).toBe("boom");
+    });
+
+    it("should be available on the AsyncResult namespace", async () => {
+      const result = await AsyncResult.fromPromise(
+        Promise.reject("nope"),
+        (error) => `${error}!!`
+      );
+      !result.isOk && expect(result.error).toBe("nope!!");
+    });
+  });
+
+  it("should map ok value with a sync function", async () => {
+    const result = await AsyncResult.ok(5).map((x) => x * 2);
+    expect(result.unwrap()).toBe(10);
+  });
+
+  it("should map ok value with an async function", async () => {
+    const result = await AsyncResult.ok(5).map(async (x) => x * 2);
+    expect(result.unwrap()).toBe(10);
+  });
+
+  it("should not map err value", async () => {
+    let called = false;
+    const result = await AsyncResult.err("error").map(() => {
+      called = true;
+    });
+    expect(called).toBe(false);
+    !result.isOk && expect(result.error).toBe("error");
+  });
+
+  it("should map err value with mapErr", async () => {
+    const result = await AsyncResult.err("error").mapErr(
+      async (err) => err + "!!"
+    );
+    !result.isOk && expect(result.error).toBe("error!!");
+  });
+
+  it("should not change ok value with mapErr", async () => {
+    const result = await AsyncResult.ok(5).mapErr((err) => err + "!!");
+    expect(result.unwrap()).toBe(5);
+  });
+
+  it("should chain ok value with andThen using a sync function", async () => {
+    const result = await AsyncResult.ok(16).andThen(sqrt);
+    expect(result.unwrap()).toBe(4);
+  });
+
+  it("should chain ok value with andThen using an async function", async () => {
+    const result = await AsyncResult.ok(16).andThen(sqrtAsync);
+    expect(result.unwrap()).toBe(4);
+  });
+
+  it("should chain ok value with andThen returning an AsyncResult", async () => {
+    const result = await AsyncResult.ok(16).andThen((x) =>
+      AsyncResult.fromResult(sqrt(x))
+    );
+    expect(result.unwrap()).toBe(4);
+  });
+
+  it("should not chain err value with andThen", async () => {
+    const result = await AsyncResult.err("error").andThen(sqrtAsync);
+    !result.isOk && expect(result.error).toBe("error");
+  });
+
+  it("should map both ok and err values with mapBoth", async () => {
+    const okResult = await AsyncResult.ok(5).mapBoth(
+      async (value) => value * 2,
+      (error) => error + "!!"
+    );
+    expect(okResult.unwrap()).toBe(10);
+
+    const errResult = await AsyncResult.err("error").mapBoth(
+      (value) => value * 2,
+      async (error) => error + "!!"
+    );
+    !errResult.isOk && expect(errResult.error).toBe("error!!");
+  });
+
+  it("should return ok value with unwrapOr", async () => {
+    expect(await AsyncResult.ok(5).unwrapOr(10)).toBe(5);
+  });
+
+  it("should return default value with unwrapOr on err", async () => {
+    expect(await AsyncResult.err("error").unwrapOr(10)).toBe(10);
+  });
+
+  it("should convert to an Option with toOption", async () => {
+    const some = await AsyncResult.ok(5).toOption();
+    expect(some.isSome).toBe(true);
+    expect(some.unwrap()).toBe(5);
+
+    const none = await AsyncResult.err("error").toOption();
+    expect(none.isSome).toBe(false);
+  });
+
+  it("should handle a mixed sync and async chaining example", async () => {
+    const result = await AsyncResult.ok(5)
+      .map((x) => x * x)
+      .andThen(async (x) => Result.ok(x / 5))
+      .andThen(sqrtAsync)
+      .map(async (x) => x.toFixed(3))
+      .unwrapOr("default");
+
+    expect(result).toBe("2.236");
+  });
+
+  it("should short-circuit a chain on the first err", async () => {
+    const result = await AsyncResult.ok(-25)
+      .andThen(sqrtAsync)
+      .map((x) => x * 2)
+      .mapErr((err) => err.toUpperCase());
+
+    expect(result.isOk).toBe(false);
+    !result.isOk &&
+      expect(result.error).toBe(
+        "CANNOT CALCULATE SQUARE ROOT OF NEGATIVE NUMBER"
+      );
+  });
+
+  it("should be usable with then like a promise", async () => {
+    const value = await AsyncResult.ok(5).then((result) => result.unwrap());
+    expect(value).toBe(5);
+  });
+
+  it("should propagate a rejection from a callback", async () => {
+    const result = AsyncResult.ok(5).map(async () => {
+      throw new Error("callback failed");
+    });
+    await expect(result).rejects.toThrow("callback failed");
+  });
+});
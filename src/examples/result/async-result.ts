@@ -0,0 +1,132 @@
+/**
+ * The AsyncResult type is the asynchronous sibling of `Result`.
+ * It represents the eventual outcome of an operation that could fail, such as an HTTP call or a database query.
+ *
+ * An `AsyncResult<T, E>` is a "thenable" - it can be `await`ed just like a Promise, and resolves to a `Result<T, E>`.
+ * Unlike a `Promise<Result<T, E>>`, it has the same chainable methods as `Result` itself, and those methods accept
+ * both synchronous and asynchronous callbacks. This avoids ending up with `Promise<Result<Promise<T>, E>>` soup.
+ *
+ * E.g.
+ * ```ts
+ * const user: Result<string, string> = await Result.fromPromise(fetchUser(1), () => "Request failed")
+ *   .map((response) => response.json())
+ *   .andThen((json) => validateUser(json))
+ *   .map((user) => user.name);
+ * ```
+ */
+
+import { Option } from "./option";
+import { Err, Result } from "./result";
+
+/** The `PromiseLike` interface is what makes an AsyncResult awaitable.
+ * Anything with a compatible `then` method can be `await`ed, or returned from an `async` function.
+ */
+interface AsyncResult<T, E> extends PromiseLike<Result<T, E>> {
+  map<T2>(fn: (value: T) => T2 | PromiseLike<T2>): AsyncResult<T2, E>;
+  mapErr<E2>(fn: (error: E) => E2 | PromiseLike<E2>): AsyncResult<T, E2>;
+  andThen<T2, E2>(
+    fn: (value: T) => Result<T2, E2> | PromiseLike<Result<T2, E2>>
+  ): AsyncResult<T2, E | E2>;
+  mapBoth<T2, E2>(
+    okFn: (value: T) => T2 | PromiseLike<T2>,
+    errFn: (error: E) => E2 | PromiseLike<E2>
+  ): AsyncResult<T2, E2>;
+  unwrapOr<T2>(defaultValue: T2): Promise<T | T2>;
+  toOption(): Promise<Option<T>>;
+  [Symbol.asyncIterator](): AsyncGenerator<Err<E>, T, unknown>;
+}
+
+namespace AsyncResult {
+  /** Wrap a promise that is known to always resolve to a `Result` in an `AsyncResult`.
+   *
+   * All of the methods here simply chain onto the wrapped promise, so nothing is run until the
+   * previous step has settled.
+   */
+  function wrap<T, E>(promise: Promise<Result<T, E>>): AsyncResult<T, E> {
+    return {
+      then(onfulfilled, onrejected) {
+        return promise.then(onfulfilled, onrejected);
+      },
+      map<T2>(fn: (value: T) => T2 | PromiseLike<T2>): AsyncResult<T2, E> {
+        return wrap(
+          promise.then(async (result) =>
+            result.isOk ? Result.ok(await fn(result.value)) : result
+          )
+        );
+      },
+      mapErr<E2>(fn: (error: E) => E2 | PromiseLike<E2>): AsyncResult<T, E2> {
+        return wrap(
+          promise.then(async (result) =>
+            result.isOk ? result : Result.err(await fn(result.error))
+          )
+        );
+      },
+      andThen<T2, E2>(
+        fn: (value: T) => Result<T2, E2> | PromiseLike<Result<T2, E2>>
+      ): AsyncResult<T2, E | E2> {
+        return wrap<T2, E | E2>(
+          promise.then((result) => (result.isOk ? fn(result.value) : result))
+        );
+      },
+      mapBoth<T2, E2>(
+        okFn: (value: T) => T2 | PromiseLike<T2>,
+        errFn: (error: E) => E2 | PromiseLike<E2>
+      ): AsyncResult<T2, E2> {
+        return wrap<T2, E2>(
+          promise.then(async (result) =>
+            result.isOk
+              ? Result.ok(await okFn(result.value))
+              : Result.err(await errFn(result.error))
+          )
+        );
+      },
+      unwrapOr<T2>(defaultValue: T2): Promise<T | T2> {
+        return promise.then((result) =>
+          result.isOk ? result.value : defaultValue
+        );
+      },
+      toOption(): Promise<Option<T>> {
+        return promise.then((result) => result.toOption());
+      },
+      // Allows `yield*`ing an AsyncResult inside `Result.genAsync`.
+      async *[Symbol.asyncIterator](): AsyncGenerator<Err<E>, T, unknown> {
+        return yield* await promise;
+      },
+    };
+  }
+
+  /** Lift an existing `Result`, or a promise of one, into an `AsyncResult`. */
+  export function fromResult<T, E>(
+    result: Result<T, E> | PromiseLike<Result<T, E>>
+  ): AsyncResult<T, E> {
+    return wrap(Promise.resolve(result));
+  }
+
+  /** Create an `AsyncResult` from a promise that may reject.
+   *
+   * If the promise resolves, its value is wrapped in an `Ok`.
+   * If it rejects, the rejection reason is passed to `mapError`, and the returned value is wrapped in an `Err`.
+   * The rejection reason is typed as `unknown`, since anything at all can be thrown in JavaScript.
+   */
+  export function fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError: (error: unknown) => E
+  ): AsyncResult<T, E> {
+    return wrap(
+      Promise.resolve(promise).then(
+        (value) => Result.ok(value),
+        (error) => Result.err(mapError(error))
+      )
+    );
+  }
+
+  export function ok<T>(value: T): AsyncResult<T, never> {
+    return fromResult(Result.ok(value));
+  }
+
+  export function err<E>(error: E): AsyncResult<never, E> {
+    return fromResult(Result.err(error));
+  }
+}
+
+export { AsyncResult };
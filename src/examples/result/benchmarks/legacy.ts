@@ -0,0 +1,125 @@
+/**
+ * The original closure-based implementation of `Ok`, `Err` and `Some`, kept as a baseline for the benchmarks.
+ *
+ * Each call builds a new object literal, with a new closure for every method.
+ * Only the methods used by the benchmarks are included, but each one is built the same way as before,
+ * so creating a legacy `Ok` allocates as much as it used to.
+ *
+ * The tags are borrowed from real instances, so `Result.isOk`, `Option.isSome` etc. accept legacy values too.
+ */
+
+import { Option } from "../option";
+import { Result } from "../result";
+
+const okTag = Result.ok(undefined)._tag;
+const errTag = Result.err(undefined)._tag;
+const someTag = Option.some(undefined)._tag;
+
+function ok<T>(value: T) {
+  return {
+    _tag: okTag,
+    isOk: true as const,
+    value,
+    unwrap() {
+      return value;
+    },
+    expect(_message: string): T {
+      return value;
+    },
+    unwrapOr<T2>(_defaultValue: T2): T {
+      return value;
+    },
+    map<T2>(fn: (value: T) => T2) {
+      return ok(fn(value));
+    },
+    mapErr<E2>(_fn: (error: never) => E2) {
+      return ok(value);
+    },
+    andThen<T2>(fn: (value: T) => T2): T2 {
+      return fn(value);
+    },
+    mapBoth<T2, E2>(okFn: (value: T) => T2, _errFn: (error: never) => E2) {
+      return ok(okFn(value));
+    },
+    match<R1, R2>(cases: {
+      ok: (value: T) => R1;
+      err: (error: never) => R2;
+    }): R1 {
+      return cases.ok(value);
+    },
+    toJSON() {
+      return { ok: value };
+    },
+  };
+}
+
+function err<E>(error: E) {
+  return {
+    _tag: errTag,
+    isOk: false as const,
+    error,
+    unwrap(): never {
+      throw error;
+    },
+    expect(message: string): never {
+      throw new Error(message);
+    },
+    unwrapOr<T2>(defaultValue: T2): T2 {
+      return defaultValue;
+    },
+    map<T2>(_fn: (value: never) => T2) {
+      return err(error);
+    },
+    mapErr<E2>(fn: (error: E) => E2) {
+      return err(fn(error));
+    },
+    andThen<T2>(_fn: (value: never) => T2) {
+      return err(error);
+    },
+    mapBoth<T2, E2>(_okFn: (value: never) => T2, errFn: (error: E) => E2) {
+      return err(errFn(error));
+    },
+    match<R1, R2>(cases: {
+      ok: (value: never) => R1;
+      err: (error: E) => R2;
+    }): R2 {
+      return cases.err(error);
+    },
+    toJSON() {
+      return { err: error };
+    },
+  };
+}
+
+function some<T>(value: T) {
+  return {
+    _tag: someTag,
+    isSome: true as const,
+    value,
+    unwrap() {
+      return value;
+    },
+    expect(_message: string): T {
+      return value;
+    },
+    unwrapOr<T2>(_defaultValue: T2): T {
+      return value;
+    },
+    map<T2>(fn: (value: T) => T2) {
+      return some(fn(value));
+    },
+    andThen<T2>(fn: (value: T) => T2): T2 {
+      return fn(value);
+    },
+    match<R1, R2>(cases: { some: (value: T) => R1; none: () => R2 }): R1 {
+      return cases.some(value);
+    },
+    toJSON() {
+      return { some: value };
+    },
+  };
+}
+
+const Legacy = { ok, err, some };
+
+export { Legacy };
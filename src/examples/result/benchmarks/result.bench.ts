@@ -0,0 +1,111 @@
+/**
+ * Compares the class-based `Ok`, `Err` and `Some` with the original closure-based versions in `legacy.ts`.
+ *
+ * Run with `npm run bench`. As well as the throughput benchmarks, this prints how much heap each value keeps alive.
+ * Measuring the heap needs a garbage collection beforehand, so that part is skipped unless Node was started with `--expose-gc`.
+ */
+
+import { bench, describe } from "vitest";
+import { Option } from "../option";
+import { Result } from "../result";
+import { Legacy } from "./legacy";
+
+const count = 100_000;
+
+const double = (n: number) => n * 2;
+
+// Storing each value stops the engine from optimising away an allocation that is never used.
+const sink: unknown[] = new Array(count);
+
+describe("create an Ok", () => {
+  bench("class", () => {
+    for (let i = 0; i < count; i++) {
+      sink[i] = Result.ok(i);
+    }
+  });
+
+  bench("legacy", () => {
+    for (let i = 0; i < count; i++) {
+      sink[i] = Legacy.ok(i);
+    }
+  });
+});
+
+describe("create an Err", () => {
+  bench("class", () => {
+    for (let i = 0; i < count; i++) {
+      sink[i] = Result.err(i);
+    }
+  });
+
+  bench("legacy", () => {
+    for (let i = 0; i < count; i++) {
+      sink[i] = Legacy.err(i);
+    }
+  });
+});
+
+describe("create a Some", () => {
+  bench("class", () => {
+    for (let i = 0; i < count; i++) {
+      sink[i] = Option.some(i);
+    }
+  });
+
+  bench("legacy", () => {
+    for (let i = 0; i < count; i++) {
+      sink[i] = Legacy.some(i);
+    }
+  });
+});
+
+describe("map and unwrap a chain", () => {
+  bench("class", () => {
+    for (let i = 0; i < count; i++) {
+      Result.ok(i).map(double).map(double).map(double).unwrapOr(0);
+    }
+  });
+
+  bench("legacy", () => {
+    for (let i = 0; i < count; i++) {
+      Legacy.ok(i).map(double).map(double).map(double).unwrapOr(0);
+    }
+  });
+});
+
+/** The heap kept alive by `count` values from `create`, divided by `count`. */
+function retainedBytesPerValue(
+  gc: () => void,
+  create: (i: number) => unknown
+): number {
+  gc();
+  const before = process.memoryUsage().heapUsed;
+  const values = Array.from({ length: count }, (_, i) => create(i));
+  gc();
+  const after = process.memoryUsage().heapUsed;
+  // Keep the values alive until after the second measurement.
+  values.length;
+  return Math.round((after - before) / count);
+}
+
+const gc = (globalThis as { gc?: () => void }).gc;
+if (gc) {
+  console.table({
+    Ok: {
+      class: retainedBytesPerValue(gc, Result.ok),
+      legacy: retainedBytesPerValue(gc, Legacy.ok),
+    },
+    Err: {
+      class: retainedBytesPerValue(gc, Result.err),
+      legacy: retainedBytesPerValue(gc, Legacy.err),
+    },
+    Some: {
+      class: retainedBytesPerValue(gc, Option.some),
+      legacy: retainedBytesPerValue(gc, Legacy.some),
+    },
+  });
+} else {
+  console.log(
+    "Skipping the retained heap measurements, as `gc` isn't exposed. Run with NODE_OPTIONS=--expose-gc to include them."
+  );
+}
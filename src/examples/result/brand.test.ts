@@ -0,0 +1,116 @@
+import { runInNewContext } from "node:vm";
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { brandVersion } from "./brand";
+
+describe("brand", () => {
+  type ResultModule = typeof import("./result");
+  type OptionModule = typeof import("./option");
+
+  let first: { result: ResultModule; option: OptionModule };
+  let second: { result: ResultModule; option: OptionModule };
+
+  // Each import after `resetModules` evaluates the files again, giving an independent copy of every class and symbol
+  // call, like two bundles that each include this code.
+  async function load() {
+    vi.resetModules();
+    return {
+      result: await import("./result"),
+      option: await import("./option"),
+    };
+  }
+
+  beforeAll(async () => {
+    first = await load();
+    second = await load();
+  });
+
+  it("should load two independent copies", () => {
+    expect(first.result.Ok).not.toBe(second.result.Ok);
+    expect(first.result.Result.ok(1)).not.toBeInstanceOf(second.result.Ok);
+  });
+
+  it("should recognise Results from the other copy", () => {
+    const ok = first.result.Result.ok(1);
+    const err = first.result.Result.err("boom");
+    const { Result } = second.result;
+
+    expect(Result.is(ok)).toBe(true);
+    expect(Result.isOk(ok)).toBe(true);
+    expect(Result.isErr(err)).toBe(true);
+    expect(() => Result.assertOk(ok)).not.toThrow();
+  });
+
+  it("should recognise Options from the other copy", () => {
+    const { Option } = second.option;
+
+    expect(Option.is(first.option.Option.some(1))).toBe(true);
+    expect(Option.isSome(first.option.Option.some(1))).toBe(true);
+    expect(Option.isNone(first.option.Option.none)).toBe(true);
+  });
+
+  it("should combine Results from both copies", () => {
+    const combined = second.result.Result.all([
+      first.result.Result.ok(1),
+      second.result.Result.ok(2),
+    ]);
+    expect(combined.unwrap()).toEqual([1, 2]);
+  });
+
+  it("should recognise a Result from another realm", () => {
+    // Code in a `vm` context has its own globals, like an iframe, but shares the symbol registry.
+    const ok = runInNewContext(
+      `({ _tag: Symbol.for("what-the-type/Ok"), _version: ${brandVersion}, isOk: true, value: 1 })`
+    );
+    expect(ok).not.toBeInstanceOf(Object);
+    expect(second.result.Result.is(ok)).toBe(true);
+    expect(second.result.Result.isOk(ok)).toBe(true);
+  });
+
+  it("should not recognise a value with another version", () => {
+    const { Result } = second.result;
+    const { Option } = second.option;
+    const old = { _version: brandVersion + 1 };
+
+    expect(
+      Result.isOk({ ...old, _tag: Symbol.for("what-the-type/Ok") } as never)
+    ).toBe(false);
+    expect(
+      Result.isErr({ ...old, _tag: Symbol.for("what-the-type/Err") } as never)
+    ).toBe(false);
+    expect(
+      Option.isSome({ ...old, _tag: Symbol.for("what-the-type/Some") } as never)
+    ).toBe(false);
+    expect(
+      Option.isNone({ ...old, _tag: Symbol.for("what-the-type/None") } as never)
+    ).toBe(false);
+  });
+
+  it("should assert the same way as it checks", () => {
+    const { Result } = second.result;
+    const { Option } = second.option;
+    const other = { _version: brandVersion + 1 };
+    const tag = (name: string) => Symbol.for(`what-the-type/${name}`);
+
+    expect(() =>
+      Result.assertOk({ ...other, _tag: tag("Ok") } as never)
+    ).toThrow();
+    expect(() =>
+      Result.assertErr({ ...other, _tag: tag("Err") } as never)
+    ).toThrow();
+    expect(() =>
+      Option.assertSome({ ...other, _tag: tag("Some") } as never)
+    ).toThrow();
+    expect(() =>
+      Option.assertNone({ ...other, _tag: tag("None") } as never)
+    ).toThrow();
+  });
+
+  it("should recognise a value from before versions were added", () => {
+    const { Result } = second.result;
+    const ok = { _tag: Symbol.for("what-the-type/Ok"), isOk: true, value: 1 };
+
+    expect(Result.is(ok)).toBe(true);
+    expect(Result.isOk(ok as never)).toBe(true);
+    expect(() => Result.assertOk(ok as never)).not.toThrow();
+  });
+});
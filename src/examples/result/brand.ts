@@ -0,0 +1,55 @@
+/**
+ * The tags that identify each variant of a Result, Option and Validation.
+ *
+ * A value's `_tag` is what `Result.isOk`, `Option.isSome` and the other checks compare. If each tag were made with
+ * `Symbol("Ok")`, every copy of this code would have its own, different symbol. Two copies end up in the same program
+ * more often than expected: two packages in a monorepo can each bundle one, and a same-origin iframe loads its own.
+ * An `Ok` from one copy would then fail every check made by the other.
+ *
+ * `Symbol.for` looks a symbol up by name in a registry that is shared by every realm (iframe or `vm` context) in the
+ * same thread, so each copy gets the very same symbol. A worker is a separate thread with its own registry, and only
+ * gets copies of values through `postMessage`, which can't copy symbols or methods anyway. To send a Result to a
+ * worker, convert it with `Result.toJSON` first.
+ * The names are prefixed with the project's name, so they don't clash with anyone else's.
+ *
+ * Each variant also has a `_version`, which is changed if the shape of the variants ever changes incompatibly.
+ * `Result.is`, `Result.isOk`, `Option.isSome` and the other checks only accept a value with the same version, so an old
+ * copy's values can't be mistaken for new ones. A value with no `_version` at all was made before versions were added,
+ * when the variants were object literals with the same shape, so it is still accepted.
+ */
+
+/** The version of the shape of the variants. Only change this for a change that an older copy couldn't handle. */
+const brandVersion = 1;
+
+// `unique symbol` gives each tag its own type, so that `_tag` can narrow a union, as with a local `Symbol()`.
+const okTag: unique symbol = Symbol.for("what-the-type/Ok");
+const errTag: unique symbol = Symbol.for("what-the-type/Err");
+const someTag: unique symbol = Symbol.for("what-the-type/Some");
+const noneTag: unique symbol = Symbol.for("what-the-type/None");
+const validTag: unique symbol = Symbol.for("what-the-type/Valid");
+const invalidTag: unique symbol = Symbol.for("what-the-type/Invalid");
+
+/** Check whether an `unknown` value has one of the `tags`, and the current version, or no version.
+ * This only looks at the tag and version, not at where the value came from, so `instanceof` isn't used.
+ */
+function hasBrand(value: unknown, tags: readonly symbol[]): boolean {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { _tag, _version } = value as { _tag?: unknown; _version?: unknown };
+  return (
+    tags.includes(_tag as symbol) &&
+    (_version === brandVersion || _version === undefined)
+  );
+}
+
+export {
+  brandVersion,
+  okTag,
+  errTag,
+  someTag,
+  noneTag,
+  validTag,
+  invalidTag,
+  hasBrand,
+};
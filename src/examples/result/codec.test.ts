@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { Codec } from "./codec";
+
+describe("Codec", () => {
+  describe("unknown", () => {
+    it("should pass values through unchanged", () => {
+      const value = { a: [1, 2] };
+      expect(Codec.unknown.encode(value)).toBe(value);
+      expect(Codec.unknown.decode(value).unwrap()).toBe(value);
+    });
+  });
+
+  describe("date", () => {
+    it("should round-trip a date through an ISO string", () => {
+      const date = new Date("2024-08-01T12:00:00.000Z");
+      const encoded = Codec.date.encode(date);
+      expect(encoded).toBe("2024-08-01T12:00:00.000Z");
+      expect(Codec.date.decode(encoded).unwrap()).toEqual(date);
+    });
+
+    it("should return an Err for an invalid date", () => {
+      const result = Codec.date.decode("not a date", "$.createdAt");
+      !result.isOk &&
+        expect(result.error).toEqual({
+          path: "$.createdAt",
+          message: "Expected an ISO 8601 date string",
+        });
+    });
+
+    it("should return an Err for a value that isn't a string", () => {
+      expect(Codec.date.decode(1234).isOk).toBe(false);
+    });
+
+    it("should only accept ISO 8601 strings", () => {
+      for (const text of [
+        "2024-08-01",
+        "2024-08-01T12:00+02:00",
+        "+275760-09-13T00:00:00.000Z",
+      ]) {
+        expect(Codec.date.decode(text).isOk).toBe(true);
+      }
+      for (const text of [
+        "8/1/2024",
+        "Aug 1 2024",
+        "2024",
+        "2024-08-01 12:00",
+        "2024-13-01",
+      ]) {
+        expect(Codec.date.decode(text).isOk).toBe(false);
+      }
+    });
+  });
+
+  describe("bigint", () => {
+    it("should round-trip a bigint through a string", () => {
+      const big = BigInt("123456789012345678901234567890");
+      const encoded = Codec.bigint.encode(big);
+      expect(encoded).toBe("123456789012345678901234567890");
+      expect(Codec.bigint.decode(encoded).unwrap()).toBe(big);
+    });
+
+    it("should return an Err for a string that isn't digits", () => {
+      const result = Codec.bigint.decode("12.5");
+      !result.isOk &&
+        expect(result.error).toEqual({
+          path: "$",
+          message: "Expected a string of digits",
+        });
+    });
+  });
+});
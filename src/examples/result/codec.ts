@@ -0,0 +1,96 @@
+/**
+ * A Codec describes how to convert a value to and from plain data, such as JSON.
+ *
+ * They are used by `Result.toJSON`/`Result.fromJSON` and `Option.toJSON`/`Option.fromJSON` to encode the value
+ * (or error) held inside, since many values don't survive a trip through `JSON.stringify` and `JSON.parse`.
+ * For example, a `Date` becomes a string, and a `BigInt` can't be stringified at all.
+ *
+ * Decoding data from outside of our program can always fail, so `decode` returns a `Result` rather than throwing.
+ */
+
+import { Result } from "./result";
+
+/** A description of why some data could not be decoded.
+ * The `path` says where in the data the problem was, E.g. `$.ok.createdAt`.
+ */
+interface DecodeError {
+  path: string;
+  message: string;
+}
+
+interface Codec<T> {
+  encode(value: T): unknown;
+  decode(data: unknown, path?: string): Result<T, DecodeError>;
+}
+
+namespace Codec {
+  /** A codec that passes values through unchanged, and accepts anything when decoding. */
+  export const unknown: Codec<unknown> = {
+    encode(value: unknown): unknown {
+      return value;
+    },
+    decode(data: unknown): Result<unknown, DecodeError> {
+      return Result.ok(data);
+    },
+  };
+
+  // A date, optionally followed by a time and a time zone, as in ISO 8601. The year can have a sign and six digits,
+  // which is how `toISOString` writes years after 9999 or before 0. `new Date` accepts many other formats, which
+  // differ between engines, so a string is checked against this first.
+  const isoDate =
+    /^(?:\d{4}|[+-]\d{6})-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?$/;
+
+  /** Encodes a `Date` as an ISO 8601 string. */
+  export const date: Codec<Date> = {
+    encode(value: Date): string {
+      return value.toISOString();
+    },
+    decode(data: unknown, path = "$"): Result<Date, DecodeError> {
+      const date =
+        typeof data === "string" && isoDate.test(data)
+          ? new Date(data)
+          : undefined;
+      return date && !isNaN(date.getTime())
+        ? Result.ok(date)
+        : Result.err({ path, message: "Expected an ISO 8601 date string" });
+    },
+  };
+
+  /** Encodes a `bigint` as a string of digits, since JSON numbers can't hold them without losing precision. */
+  export const bigint: Codec<bigint> = {
+    encode(value: bigint): string {
+      return value.toString();
+    },
+    decode(data: unknown, path = "$"): Result<bigint, DecodeError> {
+      return typeof data === "string" && /^-?\d+$/.test(data)
+        ? Result.ok(BigInt(data))
+        : Result.err({ path, message: "Expected a string of digits" });
+    },
+  };
+}
+
+/** Check that `data` is a plain object with exactly one key, which must be one of `keys`.
+ * This is how the wire formats for `Result` and `Option` are told apart.
+ */
+function singleKeyOf<K extends string>(
+  data: unknown,
+  keys: readonly K[],
+  path: string
+): Result<K, DecodeError> {
+  const found =
+    typeof data === "object" && data !== null && !Array.isArray(data)
+      ? Object.keys(data)
+      : [];
+  const [key] = found;
+  if (found.length !== 1 || !keys.includes(key as K)) {
+    return Result.err({
+      path,
+      message: `Expected an object with exactly one of the keys ${keys
+        .map((key) => `"${key}"`)
+        .join(", ")}`,
+    });
+  }
+  return Result.ok(key as K);
+}
+
+export { Codec, DecodeError, singleKeyOf };
@@ -0,0 +1,16 @@
+/**
+ * Helpers shared by the collection functions on `Result` and `Option`, such as `Result.all` and `Option.all`.
+ * These accept either an array (or tuple), or an object record, and return something of the same shape.
+ */
+
+/** The union of every member type in an array or object record. */
+type Members<C> = C extends readonly unknown[] ? C[number] : C[keyof C];
+
+/** Create an empty array or object to match the shape of `collection`.
+ * Both can be filled in with `Object.entries(collection)`, since array indexes are just string keys at runtime.
+ */
+function emptyLike(collection: object): Record<string, unknown> {
+  return (Array.isArray(collection) ? [] : {}) as Record<string, unknown>;
+}
+
+export { Members, emptyLike };
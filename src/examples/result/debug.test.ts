@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import { inspect } from "node:util";
+import { formatValue, snapshotSerializer } from "./debug";
+import { Option } from "./option";
+import { Result } from "./result";
+import { Validation } from "./validation";
+
+describe("debug", () => {
+  describe("toString", () => {
+    it("should print each variant", () => {
+      expect(Result.ok(5).toString()).toBe("Ok(5)");
+      expect(Result.err("boom").toString()).toBe('Err("boom")');
+      expect(Option.some([1, 2]).toString()).toBe("Some([1, 2])");
+      expect(Option.none.toString()).toBe("None");
+    });
+
+    it("should be used by template literals", () => {
+      expect(`${Result.ok(Option.some("a"))}`).toBe('Ok(Some("a"))');
+    });
+
+    it("should print nested values", () => {
+      const result = Result.ok({ a: 1, b: [Option.none], c: {} });
+      expect(result.toString()).toBe("Ok({ a: 1, b: [None], c: {} })");
+    });
+  });
+
+  describe("formatValue", () => {
+    it("should format values that don't print well with String", () => {
+      expect(formatValue(BigInt(10))).toBe("10n");
+      expect(formatValue(new Date(0))).toBe("1970-01-01T00:00:00.000Z");
+      expect(formatValue(new TypeError("bad"))).toBe("TypeError: bad");
+      expect(formatValue(function named() {})).toBe("[Function named]");
+      expect(formatValue(() => {})).toBe("[Function (anonymous)]");
+      expect(formatValue(null)).toBe("null");
+      expect(formatValue(undefined)).toBe("undefined");
+    });
+
+    it("should print a value inside itself as [Circular]", () => {
+      const list: unknown[] = [1];
+      list.push(list);
+      const object: Record<string, unknown> = {};
+      object.result = Result.ok(object);
+
+      expect(formatValue(list)).toBe("[1, [Circular]]");
+      expect(formatValue(object)).toBe("{ result: Ok([Circular]) }");
+    });
+
+    it("should print a value that appears twice, but not inside itself, in full", () => {
+      const shared = [1];
+
+      expect(formatValue({ a: shared, b: shared })).toBe("{ a: [1], b: [1] }");
+    });
+  });
+
+  describe("util.inspect", () => {
+    it("should print each variant", () => {
+      expect(inspect(Result.ok(5))).toBe("Ok(5)");
+      expect(inspect(Result.err("boom"))).toBe("Err('boom')");
+      expect(inspect(Option.some(true))).toBe("Some(true)");
+      expect(inspect(Option.none)).toBe("None");
+    });
+
+    it("should indent nested values", () => {
+      const result = Result.ok({
+        user: Option.some({ name: "Ferris", tags: ["crab", "mascot"] }),
+        org: Option.none,
+      });
+      expect(inspect(result, { breakLength: 40, depth: null })).toBe(
+        [
+          "Ok({",
+          "  user: Some({",
+          "    name: 'Ferris',",
+          "    tags: [ 'crab', 'mascot' ]",
+          "  }),",
+          "  org: None",
+          "})",
+        ].join("\n")
+      );
+    });
+
+    it("should respect the depth option", () => {
+      const nested = Result.ok(Result.ok(Result.ok(1)));
+      expect(inspect(nested, { depth: 1 })).toBe("Ok(Ok([Ok]))");
+      expect(inspect(nested, { depth: null })).toBe("Ok(Ok(Ok(1)))");
+    });
+  });
+
+  describe("snapshotSerializer", () => {
+    expect.addSnapshotSerializer(snapshotSerializer);
+
+    it("should print each variant in snapshots", () => {
+      expect([
+        Result.ok({ a: 1 }),
+        Result.err("boom"),
+        Option.some(Option.none),
+      ]).toMatchInlineSnapshot(`
+        [
+          Ok({
+            "a": 1,
+          }),
+          Err("boom"),
+          Some(None),
+        ]
+      `);
+    });
+
+    it("should print Validations in snapshots", () => {
+      expect([Validation.valid(1), Validation.invalid("a", "b")])
+        .toMatchInlineSnapshot(`
+        [
+          Valid(1),
+          Invalid([
+            "a",
+            "b",
+          ]),
+        ]
+      `);
+    });
+
+    it("should only apply to Results and Options", () => {
+      expect(snapshotSerializer.test({ _tag: "Ok" })).toBe(false);
+      expect(snapshotSerializer.test(null)).toBe(false);
+      expect(snapshotSerializer.test(Option.none)).toBe(true);
+      expect(snapshotSerializer.test(Validation.valid(1))).toBe(true);
+    });
+
+    it("should not apply to other libraries' tagged objects", () => {
+      const event = { _tag: Symbol("Event"), payload: 1 };
+
+      expect(snapshotSerializer.test(event)).toBe(false);
+      expect(formatValue(event)).toBe("{ _tag: Symbol(Event), payload: 1 }");
+    });
+  });
+
+  describe("tap and inspect", () => {
+    it("should call inspect with an ok value and carry on", () => {
+      const seen: number[] = [];
+      const result = Result.ok(5)
+        .inspect((value) => seen.push(value))
+        .inspectErr(() => seen.push(-1))
+        .map((x) => x * 2);
+      expect(seen).toEqual([5]);
+      expect(result.unwrap()).toBe(10);
+    });
+
+    it("should call inspectErr with an err value and carry on", () => {
+      const seen: string[] = [];
+      const result = Result.err("boom")
+        .inspect(() => seen.push("ok"))
+        .inspectErr((error) => seen.push(error));
+      expect(seen).toEqual(["boom"]);
+      expect(result.isOk).toBe(false);
+    });
+
+    it("should call tap with the whole result", () => {
+      const seen: string[] = [];
+      const log = (result: Result<number, string>) => seen.push(`${result}`);
+      Result.ok(5).tap(log);
+      Result.err("boom").tap(log);
+      expect(seen).toEqual(["Ok(5)", 'Err("boom")']);
+    });
+
+    it("should call inspect and tap on an Option", () => {
+      const seen: string[] = [];
+      Option.some(1)
+        .inspect((value) => seen.push(`inspect ${value}`))
+        .tap((option) => seen.push(`tap ${option}`));
+      Option.none
+        .inspect(() => seen.push("unreachable"))
+        .tap((option) => seen.push(`tap ${option}`));
+      expect(seen).toEqual(["inspect 1", "tap Some(1)", "tap None"]);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Helpers for printing Results and Options in a readable way, E.g. `Ok(5)`, `Err("boom")`, `Some([1, 2])` or `None`.
+ *
+ * Without these, `console.log(Result.ok(5))` prints the raw object, with its symbol tag and every method.
+ *
+ * There are three ways to print a Result or Option, all using the same format:
+ * - `toString()`, which is also used by template literals.
+ * - Node's `util.inspect` (and so `console.log` in Node), via `inspectCustom`.
+ * - Vitest and Jest snapshots, via `snapshotSerializer`.
+ */
+
+// Only the type is imported, so this module doesn't depend on Vitest at runtime.
+// Vitest's serializers are `pretty-format` plugins, which is what Jest uses too.
+import type { SnapshotSerializer } from "vitest";
+import {
+  errTag,
+  hasBrand,
+  invalidTag,
+  noneTag,
+  okTag,
+  someTag,
+  validTag,
+} from "./brand";
+
+/** The symbol Node's `util.inspect` looks for to find a custom inspect function.
+ * It's a registered symbol, so we can use it without importing `util`, and it does nothing outside of Node.
+ */
+const inspectCustom: unique symbol = Symbol.for("nodejs.util.inspect.custom");
+
+/** The subset of Node's `InspectOptions` that we use. */
+interface InspectOptions {
+  depth?: number | null;
+  stylize(text: string, styleType: string): string;
+}
+
+type Inspect = (value: unknown, options?: InspectOptions) => string;
+
+/** The arguments Node passes to an `inspectCustom` method. */
+type InspectArgs = [depth: number, options: InspectOptions, inspect: Inspect];
+
+const variantTags = [okTag, errTag, someTag, noneTag, validTag, invalidTag];
+
+/** Whether a value is a Result, Option or Validation, which are what this module prints.
+ * This checks the brand, not just for a `_tag` symbol, so another library's tagged objects are printed as objects.
+ * `Result.is` and `Option.is` can't be used, as `result.ts` and `option.ts` import this module.
+ */
+function isVariant(value: unknown): value is { _tag: symbol } {
+  return hasBrand(value, variantTags);
+}
+
+/** The objects that `formatValue` is part way through formatting, to spot one that contains itself.
+ * It is shared by every call, as a variant's payload is formatted by the variant's own `toString`, which calls
+ * `formatValue` again.
+ */
+const formatting = new WeakSet<object>();
+
+/** Format any value for `toString`.
+ * This is a much simpler version of Node's `util.inspect`, which also works outside of Node.
+ * A value that contains itself is printed as `[Circular]` where it appears inside itself.
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  if (typeof value === "function") {
+    return `[Function ${value.name || "(anonymous)"}]`;
+  }
+  if (typeof value !== "object" || value === null) {
+    return String(value);
+  }
+  if (formatting.has(value)) {
+    return "[Circular]";
+  }
+  formatting.add(value);
+  try {
+    return formatObject(value);
+  } finally {
+    formatting.delete(value);
+  }
+}
+
+function formatObject(value: object): string {
+  if (isVariant(value)) {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  const entries = Object.entries(value).map(
+    ([key, item]) => `${key}: ${formatValue(item)}`
+  );
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+}
+
+/** Format a variant, such as `Ok(5)`, for `toString`. */
+function formatVariant(name: string, ...payload: [] | [unknown]): string {
+  return payload.length === 0 ? name : `${name}(${formatValue(payload[0])})`;
+}
+
+/** Format a variant for Node's `util.inspect`.
+ *
+ * The payload is formatted with Node's own `inspect`, so it gets colours and Node's formatting for objects.
+ * Node also takes care of indenting our output when it's nested inside another object.
+ */
+function inspectVariant(
+  name: string,
+  [depth, options, inspect]: InspectArgs,
+  ...payload: [] | [unknown]
+): string {
+  const label = options.stylize(name, "special");
+  if (payload.length === 0) {
+    return label;
+  }
+  if (depth < 0) {
+    return options.stylize(`[${name}]`, "special");
+  }
+  const nestedDepth = options.depth == null ? options.depth : options.depth - 1;
+  return `${label}(${inspect(payload[0], { ...options, depth: nestedDepth })})`;
+}
+
+/** A snapshot serializer that prints Results, Options and Validations as `Ok(...)`, `Err(...)`, `Some(...)`, `None`,
+ * `Valid(...)` and `Invalid([...])`.
+ *
+ * E.g.
+ * ```ts
+ * expect.addSnapshotSerializer(snapshotSerializer);
+ * expect(Result.ok({ a: 1 })).toMatchInlineSnapshot(`
+ *   Ok({
+ *     "a": 1,
+ *   })
+ * `);
+ * ```
+ */
+const snapshotSerializer: SnapshotSerializer = {
+  test: isVariant,
+  serialize(value, config, indentation, depth, refs, printer) {
+    const print = (name: string, payload: unknown) =>
+      `${name}(${printer(payload, config, indentation, depth, refs)})`;
+    if ("isOk" in value) {
+      return value.isOk ? print("Ok", value.value) : print("Err", value.error);
+    }
+    if ("isValid" in value) {
+      return value.isValid
+        ? print("Valid", value.value)
+        : print("Invalid", value.errors);
+    }
+    return value.isSome ? print("Some", value.value) : "None";
+  },
+};
+
+export {
+  inspectCustom,
+  InspectArgs,
+  formatValue,
+  formatVariant,
+  inspectVariant,
+  snapshotSerializer,
+};
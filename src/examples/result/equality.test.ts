@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest";
+import { compare, equals, hash } from "./equality";
+import { Option } from "./option";
+import { Result } from "./result";
+
+describe("equality", () => {
+  describe("equals", () => {
+    it("should compare Results by variant and payload", () => {
+      expect(Result.ok(1).equals(Result.ok(1))).toBe(true);
+      expect(Result.ok(1).equals(Result.ok(2))).toBe(false);
+      expect(Result.ok(1).equals(Result.err(1))).toBe(false);
+      expect(Result.err("a").equals(Result.err("a"))).toBe(true);
+      expect(Result.err("a").equals(Result.err("b"))).toBe(false);
+      expect(Result.err("a").equals(Result.ok("a"))).toBe(false);
+    });
+
+    it("should compare Options by variant and payload", () => {
+      expect(Option.some(1).equals(Option.some(1))).toBe(true);
+      expect(Option.some(1).equals(Option.some(2))).toBe(false);
+      expect(Option.some(1).equals(Option.none)).toBe(false);
+      expect(Option.none.equals(Option.none)).toBe(true);
+      expect(Option.none.equals(Option.some(1))).toBe(false);
+    });
+
+    it("should compare nested Results and Options by their contents", () => {
+      const value: Result<Option<number>, string> = Result.ok(Option.some(1));
+
+      expect(value.equals(Result.ok(Option.some(1)))).toBe(true);
+      expect(value.equals(Result.ok(Option.some(2)))).toBe(false);
+      expect(value.equals(Result.ok(Option.none))).toBe(false);
+    });
+
+    it("should compare other payloads with Object.is", () => {
+      expect(Result.ok({ a: 1 }).equals(Result.ok({ a: 1 }))).toBe(false);
+      expect(Option.some(NaN).equals(Option.some(NaN))).toBe(true);
+      expect(equals(1, Result.ok(1))).toBe(false);
+    });
+
+    it("should use the Eq passed for the payload", () => {
+      const byId = (a: { id: number }, b: { id: number }) => a.id === b.id;
+
+      expect(Result.ok({ id: 1 }).equals(Result.ok({ id: 1 }), byId)).toBe(
+        true
+      );
+      expect(
+        Result.err({ id: 1 }).equals(Result.err({ id: 1 }), undefined, byId)
+      ).toBe(true);
+      expect(Option.some({ id: 1 }).equals(Option.some({ id: 2 }), byId)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("compare", () => {
+    it("should sort Err before Ok, then by payload", () => {
+      const results: Result<number, string>[] = [
+        Result.ok(2),
+        Result.err("b"),
+        Result.ok(1),
+        Result.err("a"),
+      ];
+
+      results.sort(Result.Ord());
+
+      expect(results.map(String)).toEqual([
+        'Err("a")',
+        'Err("b")',
+        "Ok(1)",
+        "Ok(2)",
+      ]);
+    });
+
+    it("should sort None before Some, then by payload", () => {
+      const options = [Option.some("b"), Option.none, Option.some("a")];
+
+      options.sort(Option.Ord());
+
+      expect(options.map(String)).toEqual(["None", 'Some("a")', 'Some("b")']);
+    });
+
+    it("should return 0 for equal values", () => {
+      expect(Result.ok(1).compare(Result.ok(1))).toBe(0);
+      expect(Result.err(1n).compare(Result.err(1n))).toBe(0);
+      expect(Option.none.compare(Option.none)).toBe(0);
+      expect(Option.some(true).compare(Option.some(true))).toBe(0);
+    });
+
+    it("should order nested Results and Options", () => {
+      const a: Result<Option<number>, string> = Result.ok(Option.none);
+      const b: Result<Option<number>, string> = Result.ok(Option.some(1));
+
+      expect(a.compare(b)).toBeLessThan(0);
+      expect(b.compare(a)).toBeGreaterThan(0);
+      expect(Result.err("x").compare(a)).toBeLessThan(0);
+      expect(
+        compare(Option.some(Result.ok(2)), Option.some(Result.ok(1)))
+      ).toBeGreaterThan(0);
+    });
+
+    it("should use the Ord passed for the payload", () => {
+      const byLength = (a: string, b: string) => a.length - b.length;
+
+      expect(Result.ok("aa").compare(Result.ok("b"), byLength)).toBeGreaterThan(
+        0
+      );
+      expect(
+        Result.err("aa").compare(Result.err("b"), undefined, byLength)
+      ).toBeGreaterThan(0);
+      expect(
+        Option.some("a").compare(Option.some("bb"), byLength)
+      ).toBeLessThan(0);
+    });
+
+    it("should throw for payloads with no obvious order", () => {
+      expect(() => Result.ok({}).compare(Result.ok({}))).toThrow(
+        new TypeError(
+          "Cannot compare object with object. Pass an Ord to compare them."
+        )
+      );
+      expect(() => compare(1, "1")).toThrow(
+        "Cannot compare number with string"
+      );
+      expect(() => compare(Result.ok(1), Option.some(1))).toThrow(
+        "Cannot compare a Result with an Option"
+      );
+    });
+
+    it("should throw for a value that contains itself", () => {
+      const a = Option.some<unknown>(0);
+      a.value = a;
+      const b = Option.some<unknown>(0);
+      b.value = b;
+
+      expect(() => compare(a, b)).toThrow(
+        new TypeError("Cannot compare a value that contains itself")
+      );
+      expect(() => equals(a, b)).toThrow(
+        new TypeError("Cannot compare a value that contains itself")
+      );
+      expect(equals(a, a)).toBe(true);
+    });
+  });
+
+  describe("Eq and Ord builders", () => {
+    it("should compose for nested types", () => {
+      const eq = Result.Eq(
+        Option.Eq((a: { id: number }, b: { id: number }) => a.id === b.id),
+        (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+      );
+
+      expect(
+        eq(Result.ok(Option.some({ id: 1 })), Result.ok(Option.some({ id: 1 })))
+      ).toBe(true);
+      expect(eq(Result.err("Oops"), Result.err("OOPS"))).toBe(true);
+      expect(eq(Result.ok(Option.none), Result.err("none"))).toBe(false);
+    });
+
+    it("should sort nested types", () => {
+      const byValue = Option.Ord(
+        Result.Ord((a: Date, b: Date) => a.getTime() - b.getTime())
+      );
+      const options: Option<Result<Date, string>>[] = [
+        Option.some(Result.ok(new Date(2))),
+        Option.some(Result.ok(new Date(1))),
+        Option.some(Result.err("invalid")),
+        Option.none,
+      ];
+
+      options.sort(byValue);
+
+      expect(options.map((option) => option.toString())).toEqual([
+        "None",
+        'Some(Err("invalid"))',
+        "Some(Ok(1970-01-01T00:00:00.001Z))",
+        "Some(Ok(1970-01-01T00:00:00.002Z))",
+      ]);
+    });
+  });
+
+  describe("hash", () => {
+    it("should give equal values the same hash", () => {
+      expect(hash(Result.ok(Option.some(1)))).toBe(
+        hash(Result.ok(Option.some(1)))
+      );
+      expect(hash(Option.none)).toBe(hash(Option.none));
+    });
+
+    it("should be stable between runs", () => {
+      expect(hash(Result.ok(1))).toBe(1057327116);
+      expect(hash(1)).toBe(1255242637);
+    });
+
+    it("should give different variants different hashes", () => {
+      const hashes = new Set([
+        hash(Result.ok(1)),
+        hash(Result.err(1)),
+        hash(Option.some(1)),
+        hash(Option.none),
+        hash(1),
+        hash("1"),
+      ]);
+
+      expect(hashes.size).toBe(6);
+    });
+
+    it("should hash arrays and plain objects by their contents", () => {
+      expect(hash([1, Option.some(2)])).toBe(hash([1, Option.some(2)]));
+      expect(hash({ a: 1, b: 2 })).toBe(hash({ b: 2, a: 1 }));
+      expect(hash({ a: 1 })).not.toBe(hash({ a: 2 }));
+      expect(hash(new Map())).toBe(hash(new Map([[1, 2]])));
+    });
+
+    it("should hash objects with no prototype by their contents", () => {
+      const object = Object.assign(Object.create(null), { a: 1 });
+
+      expect(hash(object)).toBe(hash({ a: 1 }));
+      expect(hash(Object.create(null))).toBe(hash({}));
+    });
+
+    it("should not throw for objects that can't be converted to a string", () => {
+      const throws = new (class {
+        toString(): string {
+          throw new Error("No string");
+        }
+      })();
+
+      expect(hash(throws)).toBe(hash(new (class {})()));
+    });
+
+    it("should throw for a value that contains itself", () => {
+      const list: unknown[] = [];
+      list.push(Option.some(list));
+      const shared = { a: 1 };
+
+      expect(() => hash(list)).toThrow(
+        new TypeError("Cannot hash a value that contains itself")
+      );
+      expect(hash([shared, shared])).toBe(hash([{ a: 1 }, { a: 1 }]));
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Structural equality, ordering and hashing for Results and Options.
+ *
+ * Each `Result.ok(5)` is a new object, so `===` never finds two of them equal, and there is no built-in way to sort them.
+ * The functions here compare what the values hold instead, following Rust's rules:
+ *
+ * - Two Results are equal if they are the same variant, with equal payloads. The same goes for Options.
+ * - An `Err` sorts before an `Ok`, and `None` before `Some`. Two of the same variant sort by their payloads.
+ * - Equal values always have the same `hash`, so it can be used to build a key for a `Map`, or to dedupe.
+ *
+ * Payloads are compared with `Object.is` by default, and nested Results and Options are compared the same way as the
+ * outer one. To compare payloads any other way, pass an `Eq` or `Ord` function, or build one for a nested type with
+ * `Result.Eq`, `Result.Ord`, `Option.Eq` and `Option.Ord`.
+ *
+ * E.g.
+ * ```ts
+ * Result.ok(5).equals(Result.ok(5)); // true
+ * [Option.some(2), Option.none, Option.some(1)].sort(Option.Ord()); // [None, Some(1), Some(2)]
+ *
+ * const byName = Option.Eq((a: User, b: User) => a.name === b.name);
+ * Result.Eq(byName)(Result.ok(Option.some(ada)), Result.ok(Option.some({ ...ada }))); // true
+ * ```
+ */
+
+import { errTag, hasBrand, noneTag, okTag, someTag } from "./brand";
+
+/** Check whether two values are equal. */
+type Eq<T> = (a: T, b: T) => boolean;
+
+/** Compare two values for sorting, like the function passed to `Array.prototype.sort`.
+ * Returns a negative number if `a` comes first, a positive number if `b` comes first, or 0 if they are equal.
+ */
+type Ord<T> = (a: T, b: T) => number;
+
+/** Any variant of a Result or Option. These functions take `unknown`, so they only rely on the shared tags. */
+interface Variant {
+  _tag: symbol;
+  value?: unknown;
+  error?: unknown;
+}
+
+const variantTags = [okTag, errTag, someTag, noneTag];
+
+// Where each variant sorts within its own type. Results and Options are never compared with each other.
+const rank = new Map<symbol, number>([
+  [errTag, 0],
+  [okTag, 1],
+  [noneTag, 0],
+  [someTag, 1],
+]);
+
+function isVariant(value: unknown): value is Variant {
+  return hasBrand(value, variantTags);
+}
+
+function payloadOf(variant: Variant): unknown {
+  return variant._tag === errTag ? variant.error : variant.value;
+}
+
+/** Run `fn` with `value` added to `path`, the values that are being compared or hashed around it.
+ * A value that contains itself would be recursed into forever, until the stack overflows, so it throws a `TypeError`
+ * instead.
+ */
+function within<R>(
+  path: Set<unknown>,
+  value: unknown,
+  action: string,
+  fn: () => R
+): R {
+  if (path.has(value)) {
+    throw new TypeError(`Cannot ${action} a value that contains itself`);
+  }
+  path.add(value);
+  try {
+    return fn();
+  } finally {
+    path.delete(value);
+  }
+}
+
+/** The default `Eq`. Results and Options are equal if they are the same variant with equal payloads, checked with
+ * this function again, so nesting works. Anything else is compared with `Object.is`.
+ * A Result or Option that contains itself throws a `TypeError`, unless it is compared with itself.
+ */
+function equals(a: unknown, b: unknown): boolean {
+  return equalsWithin(a, b, new Set());
+}
+
+function equalsWithin(a: unknown, b: unknown, path: Set<unknown>): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (isVariant(a) && isVariant(b)) {
+    return (
+      a._tag === b._tag &&
+      within(path, a, "compare", () =>
+        equalsWithin(payloadOf(a), payloadOf(b), path)
+      )
+    );
+  }
+  return false;
+}
+
+/** The default `Ord`. Results and Options are ordered by variant, then by their payloads, checked with this function again.
+ * Numbers, strings, bigints and booleans are ordered with `<`, and anything else throws a `TypeError`, as there is no
+ * obvious order for it. Pass your own `Ord` for those. A Result or Option that contains itself throws a `TypeError` too.
+ */
+function compare(a: unknown, b: unknown): number {
+  return compareWithin(a, b, new Set());
+}
+
+function compareWithin(a: unknown, b: unknown, path: Set<unknown>): number {
+  if (
+    isVariant(a) &&
+    isVariant(b) &&
+    isResultTag(a._tag) === isResultTag(b._tag)
+  ) {
+    return (
+      rank.get(a._tag)! - rank.get(b._tag)! ||
+      within(path, a, "compare", () =>
+        compareWithin(payloadOf(a), payloadOf(b), path)
+      )
+    );
+  }
+  if (typeof a === typeof b && orderedTypes.has(typeof a)) {
+    return (a as number) < (b as number)
+      ? -1
+      : (a as number) > (b as number)
+      ? 1
+      : 0;
+  }
+  throw new TypeError(
+    `Cannot compare ${describe(a)} with ${describe(
+      b
+    )}. Pass an Ord to compare them.`
+  );
+}
+
+const orderedTypes = new Set(["number", "string", "bigint", "boolean"]);
+
+function isResultTag(tag: symbol): boolean {
+  return tag === okTag || tag === errTag;
+}
+
+function describe(value: unknown): string {
+  return isVariant(value)
+    ? isResultTag(value._tag)
+      ? "a Result"
+      : "an Option"
+    : typeof value;
+}
+
+/** A 32-bit hash of a value, which is the same every time the program runs.
+ *
+ * Values that are `equals` always have the same hash. Results and Options are hashed by their variant and payload,
+ * arrays and plain objects (including ones with no prototype) by their contents, and other values by their type and
+ * `String(value)`. A custom `Eq` might find values equal that hash differently, so hash something that the `Eq`
+ * compares instead. A value that contains itself throws a `TypeError`.
+ *
+ * The hash is FNV-1a, which is quick and spreads similar inputs out well, but isn't a cryptographic hash.
+ */
+function hash(value: unknown): number {
+  const text = canonical(value, new Set());
+  let result = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    result ^= text.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+/** A string that is the same for any two values that are `equals`, for `hash` to hash. */
+function canonical(value: unknown, path: Set<unknown>): string {
+  if (isVariant(value)) {
+    return within(
+      path,
+      value,
+      "hash",
+      () => `${value._tag.description}(${canonical(payloadOf(value), path)})`
+    );
+  }
+  if (Array.isArray(value)) {
+    return within(
+      path,
+      value,
+      "hash",
+      () => `[${value.map((item) => canonical(item, path)).join(",")}]`
+    );
+  }
+  if (isPlainObject(value)) {
+    // Sorting the keys means that the order they were added in doesn't matter.
+    const entries = within(path, value, "hash", () =>
+      Object.keys(value)
+        .sort()
+        .map(
+          (key) =>
+            `${JSON.stringify(key)}:${canonical(
+              (value as Record<string, unknown>)[key],
+              path
+            )}`
+        )
+    );
+    return `{${entries.join(",")}}`;
+  }
+  return typeof value === "string"
+    ? JSON.stringify(value)
+    : `${typeof value}:${toText(value)}`;
+}
+
+/** An object literal, or an object with no prototype, such as one from `Object.create(null)`. */
+function isPlainObject(value: unknown): value is object {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/** `String(value)`, which throws for an object whose `toString` throws, or isn't a function.
+ * Those are described by their class instead, E.g. `[object Object]`, so that `hash` never throws for them.
+ */
+function toText(value: unknown): string {
+  try {
+    return String(value);
+  } catch {
+    return Object.prototype.toString.call(value);
+  }
+}
+
+export { Eq, Ord, equals, compare, hash };
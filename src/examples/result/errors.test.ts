@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  ContextError,
+  UnwrapError,
+  errorChain,
+  formatErrorChain,
+  taggedError,
+} from "./errors";
+import { match } from "./match";
+import { Result } from "./result";
+
+describe("errors", () => {
+  class NotFound extends taggedError("NotFound")<{ id: string }> {}
+  class Timeout extends taggedError("Timeout")<{ afterMs: number }> {}
+  class Unknown extends taggedError("Unknown") {}
+
+  describe("taggedError", () => {
+    it("should create an Error with a kind and payload", () => {
+      const error = new NotFound({ id: "1" });
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(NotFound);
+      expect(error.kind).toBe("NotFound");
+      expect(error.name).toBe("NotFound");
+      expect(error.message).toBe("NotFound");
+      expect(error.id).toBe("1");
+    });
+
+    it("should allow the payload to be left out when it has no keys", () => {
+      expect(new Unknown().kind).toBe("Unknown");
+    });
+
+    it("should use a message from the payload", () => {
+      class Invalid extends taggedError("Invalid")<{ message: string }> {}
+      expect(new Invalid({ message: "Bad input" }).message).toBe("Bad input");
+    });
+
+    it("should build a discriminated union that can be matched on", () => {
+      const describeError = (error: NotFound | Timeout) =>
+        match(error, "kind", {
+          NotFound: ({ id }) => `No user with ID ${id}`,
+          Timeout: ({ afterMs }) => `Gave up after ${afterMs}ms`,
+        });
+
+      expect(describeError(new NotFound({ id: "2" }))).toBe(
+        "No user with ID 2"
+      );
+      expect(describeError(new Timeout({ afterMs: 5 }))).toBe(
+        "Gave up after 5ms"
+      );
+    });
+
+    it("should fail to compile when the payload is missing", () => {
+      // @ts-expect-error - NotFound requires an `id`
+      expect(new NotFound().kind).toBe("NotFound");
+    });
+  });
+
+  describe("UnwrapError", () => {
+    it("should keep the cause", () => {
+      const error = new UnwrapError("Cannot unwrap Err", { cause: "boom" });
+      expect(error.name).toBe("UnwrapError");
+      expect(error.cause).toBe("boom");
+    });
+  });
+
+  describe("errorChain", () => {
+    it("should list an error followed by its causes", () => {
+      const root = new Error("ENOENT");
+      const error = new ContextError(
+        "Failed to load config",
+        new ContextError("Failed to read config.json", root)
+      );
+      expect(errorChain(error).map((e) => (e as Error).message)).toEqual([
+        "Failed to load config",
+        "Failed to read config.json",
+        "ENOENT",
+      ]);
+    });
+
+    it("should return just the error when there is no cause", () => {
+      expect(errorChain("boom")).toEqual(["boom"]);
+    });
+
+    it("should stop at a cause that is already in the chain", () => {
+      const first = new Error("first");
+      const second = new Error("second", { cause: first });
+      first.cause = second;
+
+      expect(errorChain(first)).toEqual([first, second]);
+    });
+  });
+
+  describe("formatErrorChain", () => {
+    it("should print the whole causal chain", () => {
+      const result = Result.err({ code: "ENOENT" })
+        .context("Failed to read config.json")
+        .context("Failed to load config");
+
+      !result.isOk &&
+        expect(formatErrorChain(result.error)).toBe(
+          [
+            "Failed to load config",
+            "",
+            "Caused by:",
+            "    0: Failed to read config.json",
+            '    1: {"code":"ENOENT"}',
+          ].join("\n")
+        );
+    });
+
+    it("should print an error with no cause on its own", () => {
+      expect(formatErrorChain(new Error("boom"))).toBe("boom");
+      expect(formatErrorChain("boom")).toBe("boom");
+      expect(formatErrorChain(undefined)).toBe("undefined");
+    });
+
+    it("should print errors that JSON can't hold", () => {
+      const circular: Record<string, unknown> = { code: "LOOP" };
+      circular.self = circular;
+
+      expect(
+        formatErrorChain(Result.err({ id: BigInt(1) }).context("x").error)
+      ).toBe(["x", "", "Caused by:", "    0: { id: 1n }"].join("\n"));
+      expect(formatErrorChain(circular)).toBe(
+        '{ code: "LOOP", self: [Circular] }'
+      );
+    });
+  });
+});
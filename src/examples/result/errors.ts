@@ -0,0 +1,135 @@
+/**
+ * Error types used by, and for use with, `Result` and `Option`.
+ *
+ * - `UnwrapError` is thrown when unwrapping an `Err` or `None`, and keeps the original error as its `cause`.
+ * - `taggedError` builds discriminated error classes, which work well with `match` from `match.ts`.
+ * - `ContextError` is created by `Err.context`, and builds a chain of errors that explains what went wrong at each level.
+ */
+
+import { formatValue } from "./debug";
+
+/** Thrown by `unwrap` and `expect` when called on an `Err` or `None`.
+ *
+ * If it came from an `Err`, the error value it held is kept as the `cause`, so it isn't lost.
+ */
+class UnwrapError extends Error {
+  constructor(message: string, options?: { cause: unknown }) {
+    super(message, options);
+    this.name = "UnwrapError";
+  }
+}
+
+/** An error that adds a message describing what was being done when the `cause` error happened.
+ *
+ * These are created with `result.context(message)`, and can be nested to build a chain like:
+ * "Failed to load config" caused by "Failed to read config.json" caused by "ENOENT".
+ */
+class ContextError<E = unknown> extends Error {
+  // `declare` narrows the type of the built-in `cause` property, without redefining it.
+  declare readonly cause: E;
+
+  constructor(message: string, cause: E) {
+    super(message, { cause });
+    this.name = "ContextError";
+  }
+}
+
+/** The constructor returned by `taggedError`.
+ *
+ * It has a generic construct signature, so the payload type can be given where the class is extended.
+ * If the payload has no keys, it can be left out when constructing the error.
+ */
+type TaggedErrorConstructor<Tag extends string> = new <P extends object = {}>(
+  ...args: keyof P extends never ? [payload?: P] : [payload: P]
+) => Error & { readonly kind: Tag } & Readonly<P>;
+
+/** Build a base class for an error with a `kind` discriminant, and a typed payload.
+ *
+ * E.g.
+ * ```ts
+ * class NotFound extends taggedError("NotFound")<{ id: string }> {}
+ * class Timeout extends taggedError("Timeout")<{ afterMs: number }> {}
+ *
+ * const error: NotFound | Timeout = new NotFound({ id: "1" });
+ * error.kind; // "NotFound" | "Timeout"
+ * ```
+ *
+ * A union of these is a discriminated union, so it can be narrowed by checking `kind`, or handled with `match(error, "kind", ...)`.
+ * The message defaults to the `kind`, but a `message` in the payload will replace it.
+ */
+function taggedError<Tag extends string>(
+  kind: Tag
+): TaggedErrorConstructor<Tag> {
+  class TaggedError extends Error {
+    readonly kind: Tag = kind;
+
+    constructor(payload: object = {}) {
+      super(kind);
+      this.name = kind;
+      Object.assign(this, payload);
+    }
+  }
+  return TaggedError as unknown as TaggedErrorConstructor<Tag>;
+}
+
+/** List an error followed by each of its causes, following the `cause` property until there isn't one.
+ * A cause that is already in the chain ends it, so an error that is its own cause, directly or not, is only listed once.
+ */
+function errorChain(error: unknown): unknown[] {
+  const chain = [error];
+  const seen = new Set(chain);
+  let current = error;
+  while (current instanceof Error && "cause" in current) {
+    current = current.cause;
+    if (seen.has(current)) {
+      break;
+    }
+    seen.add(current);
+    chain.push(current);
+  }
+  return chain;
+}
+
+function describe(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === "string") {
+    return error;
+  }
+  try {
+    return JSON.stringify(error) ?? String(error);
+  } catch {
+    // JSON can't hold a bigint, or a value that contains itself, which `formatValue` prints instead.
+    return formatValue(error);
+  }
+}
+
+/** Print an error and all of its causes, in the style of Rust's `anyhow` crate.
+ *
+ * E.g.
+ * ```
+ * Failed to load config
+ *
+ * Caused by:
+ *     0: Failed to read config.json
+ *     1: ENOENT
+ * ```
+ */
+function formatErrorChain(error: unknown): string {
+  const [head, ...causes] = errorChain(error).map(describe);
+  if (causes.length === 0) {
+    return head;
+  }
+  const lines = causes.map((cause, i) => `    ${i}: ${cause}`);
+  return [head, "", "Caused by:", ...lines].join("\n");
+}
+
+export {
+  UnwrapError,
+  ContextError,
+  TaggedErrorConstructor,
+  taggedError,
+  errorChain,
+  formatErrorChain,
+};
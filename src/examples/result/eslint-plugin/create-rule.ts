@@ -0,0 +1,14 @@
+import { ESLintUtils } from "@typescript-eslint/utils";
+
+/** The extra documentation each rule has. Every rule here uses type information. */
+interface Docs {
+  requiresTypeChecking: boolean;
+}
+
+/** Each rule's documentation is the doc comment at the top of its source file. */
+const createRule = ESLintUtils.RuleCreator<Docs>(
+  (name) =>
+    `https://github.com/mjftw/what-the-type/blob/main/src/examples/result/eslint-plugin/${name}.ts`
+);
+
+export { createRule };
@@ -0,0 +1,3 @@
+// The rule tests lint code as if it were in this file, so that the type checker can find a program for it.
+// The code in each test imports from `../../result` and `../../option` relative to this directory.
+export {};
@@ -0,0 +1,58 @@
+import * as path from "node:path";
+import parser from "@typescript-eslint/parser";
+import { Linter } from "eslint";
+import { describe, it, expect } from "vitest";
+import plugin from "./index";
+import { withTypes } from "./rule-tester";
+
+describe("eslint-plugin", () => {
+  const linter = new Linter();
+  const filename = path.join(__dirname, "fixtures", "file.ts");
+
+  const lint = (code: string) =>
+    linter.verify(
+      withTypes(code),
+      [
+        {
+          files: ["**/*.ts"],
+          languageOptions: {
+            parser,
+            parserOptions: {
+              project: "./tsconfig.json",
+              tsconfigRootDir: path.join(__dirname, "fixtures"),
+            },
+          },
+        },
+        plugin.configs.recommended as Linter.Config,
+      ],
+      filename
+    );
+
+  it("should turn on every rule in the recommended config", () => {
+    expect(Object.keys(plugin.configs.recommended.rules ?? {})).toEqual(
+      Object.keys(plugin.rules).map((name) => `result/${name}`)
+    );
+  });
+
+  it("should report each problem with the recommended config", () => {
+    const messages = lint(`
+      save();
+      const n = result.unwrap();
+      const e = result.error;
+    `);
+    expect(messages.map((message) => message.ruleId)).toEqual([
+      "result/must-use-result",
+      "result/no-unsafe-unwrap",
+      "result/no-unnarrowed-access",
+    ]);
+  });
+
+  it("should allow code that handles its Results", () => {
+    expect(
+      lint(`
+        const saved = save();
+        const n = result.isOk ? result.unwrap() : 0;
+      `)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * An ESLint plugin that uses type information to check that Results and Options are handled.
+ *
+ * The type system checks that a Result is handled before its value is used, but it can't stop a Result from being
+ * ignored completely, or from being unwrapped without checking it first. These rules catch those mistakes:
+ *
+ * - `result/must-use-result`: a Result, Option or AsyncResult that is discarded
+ * - `result/no-unsafe-unwrap`: `unwrap()` or `expect()` on a value that could be an `Err` or `None`
+ * - `result/no-unnarrowed-access`: reading `.value` or `.error` from a value that hasn't been narrowed
+ *
+ * The rules need type information, so `typescript-eslint` must be set up with `projectService` (or `project`).
+ *
+ * E.g. in `eslint.config.mjs`:
+ * ```js
+ * import tseslint from "typescript-eslint";
+ * import resultPlugin from "./src/examples/result/eslint-plugin";
+ *
+ * export default tseslint.config(
+ *   { languageOptions: { parserOptions: { projectService: true } } },
+ *   resultPlugin.configs.recommended
+ * );
+ * ```
+ */
+
+import type { TSESLint } from "@typescript-eslint/utils";
+import { mustUseResult } from "./must-use-result";
+import { noUnnarrowedAccess } from "./no-unnarrowed-access";
+import { noUnsafeUnwrap } from "./no-unsafe-unwrap";
+
+const rules = {
+  "must-use-result": mustUseResult,
+  "no-unsafe-unwrap": noUnsafeUnwrap,
+  "no-unnarrowed-access": noUnnarrowedAccess,
+};
+
+const plugin = {
+  meta: { name: "eslint-plugin-result" },
+  rules,
+  configs: {} as { recommended: TSESLint.FlatConfig.Config },
+};
+
+// The config refers to the plugin, so it is added once the plugin exists.
+plugin.configs.recommended = {
+  plugins: { result: plugin },
+  rules: {
+    "result/must-use-result": "error",
+    "result/no-unsafe-unwrap": "error",
+    "result/no-unnarrowed-access": "error",
+  },
+};
+
+export default plugin;
+export { rules };
@@ -0,0 +1,41 @@
+import { mustUseResult } from "./must-use-result";
+import { ruleTester, withTypes } from "./rule-tester";
+
+/** A test case for a statement that discards a value, where the suggestion adds `void` before `expression`. */
+function discarded(code: string, expression: string, kind: string) {
+  return {
+    code: withTypes(code),
+    errors: [
+      {
+        messageId: "mustUse" as const,
+        data: { kind },
+        suggestions: [
+          {
+            messageId: "discard" as const,
+            output: withTypes(code.replace(expression, `void ${expression}`)),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+ruleTester.run("must-use-result", mustUseResult, {
+  valid: [
+    withTypes("const saved = save();"),
+    withTypes("let saved; saved = save();"),
+    withTypes("void save();"),
+    withTypes("function f() { return save(); }"),
+    withTypes("save().unwrapOr(undefined);"),
+    withTypes("console.log(save());"),
+    withTypes("[1, 2].map((n) => n);"),
+  ],
+  invalid: [
+    discarded("save();", "save()", "Result"),
+    discarded("result.map((n) => n * 2);", "result.map", "Result"),
+    discarded("Result.ok(1);", "Result.ok", "Result"),
+    discarded("option.filter((n) => n > 0);", "option.filter", "Option"),
+    discarded("asyncResult.map((n) => n * 2);", "asyncResult", "AsyncResult"),
+    discarded("async function f() { await asyncResult; }", "await", "Result"),
+  ],
+});
@@ -0,0 +1,65 @@
+/**
+ * Report a Result, Option or AsyncResult that is created and then thrown away.
+ *
+ * Returning a Result is how a function says that it can fail, so ignoring one ignores the error, just like an empty
+ * `catch` block. Rust has the same check, with its `#[must_use]` attribute.
+ *
+ * E.g.
+ * ```ts
+ * saveUser(user); // Reported: the Result from `saveUser` is discarded
+ * void saveUser(user); // Allowed: discarded on purpose
+ * const saved = saveUser(user); // Allowed
+ * ```
+ */
+
+import { AST_NODE_TYPES, ESLintUtils } from "@typescript-eslint/utils";
+import { createRule } from "./create-rule";
+import { describeVariants, variantsOf } from "./variants";
+
+const mustUseResult = createRule({
+  name: "must-use-result",
+  meta: {
+    type: "problem",
+    docs: {
+      description: "Require Results, Options and AsyncResults to be used",
+      requiresTypeChecking: true,
+    },
+    hasSuggestions: true,
+    messages: {
+      mustUse:
+        "This {{ kind }} is discarded. Handle it, or discard it explicitly with `void`.",
+      discard: "Discard it explicitly with `void`.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const services = ESLintUtils.getParserServices(context);
+    return {
+      ExpressionStatement(node) {
+        const { expression } = node;
+        // An assignment stores the value, so it is used.
+        if (expression.type === AST_NODE_TYPES.AssignmentExpression) {
+          return;
+        }
+        const variants = variantsOf(services.getTypeAtLocation(expression));
+        if (!variants) {
+          return;
+        }
+        context.report({
+          node,
+          messageId: "mustUse",
+          data: { kind: describeVariants(variants) },
+          suggest: [
+            {
+              messageId: "discard",
+              fix: (fixer) => fixer.insertTextBefore(expression, "void "),
+            },
+          ],
+        });
+      },
+    };
+  },
+});
+
+export { mustUseResult };
@@ -0,0 +1,58 @@
+import { noUnnarrowedAccess } from "./no-unnarrowed-access";
+import { ruleTester, withTypes } from "./rule-tester";
+
+ruleTester.run("no-unnarrowed-access", noUnnarrowedAccess, {
+  valid: [
+    withTypes("if (result.isOk) { result.value; }"),
+    withTypes("if (!result.isOk) { result.error; }"),
+    withTypes("const n = result.isOk ? result.value : 0;"),
+    withTypes("if (option.isSome) { option.value; }"),
+    withTypes("Result.ok(1).value;"),
+    withTypes("Result.err('boom').error;"),
+    withTypes("result['value'];"),
+    withTypes("result.isOk;"),
+    withTypes("declare const other: { value: number }; other.value;"),
+  ],
+  invalid: [
+    {
+      code: withTypes("const n = result.value;"),
+      errors: [
+        {
+          messageId: "unnarrowed",
+          data: { property: "value", variant: "an `Ok`", kind: "Result" },
+          suggestions: [
+            {
+              messageId: "useUnwrapOr",
+              output: withTypes("const n = result.unwrapOr(undefined);"),
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: withTypes("const e = result.error;"),
+      errors: [
+        {
+          messageId: "unnarrowed",
+          data: { property: "error", variant: "an `Err`", kind: "Result" },
+          suggestions: [],
+        },
+      ],
+    },
+    {
+      code: withTypes("const n = option.value;"),
+      errors: [
+        {
+          messageId: "unnarrowed",
+          data: { property: "value", variant: "a `Some`", kind: "Option" },
+          suggestions: [
+            {
+              messageId: "useUnwrapOr",
+              output: withTypes("const n = option.unwrapOr(undefined);"),
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
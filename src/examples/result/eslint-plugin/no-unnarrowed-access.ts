@@ -0,0 +1,88 @@
+/**
+ * Report reading `.value` or `.error` from a Result or Option before it has been narrowed to the variant that has it.
+ *
+ * TypeScript already reports this, but not in JavaScript files, or where the type checking has been switched off with
+ * a cast or a `@ts-ignore`. At runtime the property is just `undefined`, which can go a long way before it is noticed.
+ *
+ * E.g.
+ * ```ts
+ * const name = getUser(id).value; // Reported
+ *
+ * const user = getUser(id);
+ * const name = user.isOk ? user.value : "Anonymous"; // Allowed
+ * ```
+ */
+
+import { AST_NODE_TYPES, ESLintUtils } from "@typescript-eslint/utils";
+import { createRule } from "./create-rule";
+import { describeVariants, variantsOf } from "./variants";
+
+const noUnnarrowedAccess = createRule({
+  name: "no-unnarrowed-access",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow reading `value` or `error` from a Result or Option that hasn't been narrowed",
+      requiresTypeChecking: true,
+    },
+    hasSuggestions: true,
+    messages: {
+      unnarrowed:
+        "`{{ property }}` is only set on {{ variant }}, so check that this {{ kind }} is one first.",
+      useUnwrapOr: "Use `unwrapOr(undefined)` instead.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const services = ESLintUtils.getParserServices(context);
+    return {
+      MemberExpression(node) {
+        if (
+          node.computed ||
+          node.property.type !== AST_NODE_TYPES.Identifier ||
+          (node.property.name !== "value" && node.property.name !== "error")
+        ) {
+          return;
+        }
+        const variants = variantsOf(services.getTypeAtLocation(node.object));
+        if (!variants) {
+          return;
+        }
+        const isValue = node.property.name === "value";
+        const unsafe = isValue
+          ? variants.has("Err") || variants.has("None")
+          : variants.has("Ok");
+        if (!unsafe) {
+          return;
+        }
+        const property = node.property;
+        context.report({
+          node,
+          messageId: "unnarrowed",
+          data: {
+            property: property.name,
+            variant: isValue
+              ? variants.has("Err")
+                ? "an `Ok`"
+                : "a `Some`"
+              : "an `Err`",
+            kind: describeVariants(variants),
+          },
+          suggest: isValue
+            ? [
+                {
+                  messageId: "useUnwrapOr",
+                  fix: (fixer) =>
+                    fixer.replaceText(property, "unwrapOr(undefined)"),
+                },
+              ]
+            : [],
+        });
+      },
+    };
+  },
+});
+
+export { noUnnarrowedAccess };
@@ -0,0 +1,82 @@
+import { noUnsafeUnwrap } from "./no-unsafe-unwrap";
+import { ruleTester, withTypes } from "./rule-tester";
+
+ruleTester.run("no-unsafe-unwrap", noUnsafeUnwrap, {
+  valid: [
+    withTypes("if (result.isOk) { result.unwrap(); }"),
+    withTypes("if (Result.isOk(result)) { result.expect('ok'); }"),
+    withTypes("Result.assertOk(result); result.unwrap();"),
+    withTypes("if (option.isSome) { option.unwrap(); }"),
+    withTypes("Result.ok(1).unwrap();"),
+    withTypes("result.unwrapOr(0);"),
+    withTypes("result.unwrapErr();"),
+    withTypes("const map = new Map(); map.expect;"),
+    withTypes("declare const other: { unwrap(): number }; other.unwrap();"),
+  ],
+  invalid: [
+    {
+      code: withTypes("const n = result.unwrap();"),
+      errors: [
+        {
+          messageId: "unsafeUnwrap",
+          data: { method: "unwrap", kind: "Result", failure: "an `Err`" },
+          suggestions: [
+            {
+              messageId: "useUnwrapOr",
+              output: withTypes("const n = result.unwrapOr(undefined);"),
+            },
+            {
+              messageId: "useMatch",
+              output: withTypes(
+                "const n = result.match({ ok: (value) => value, err: () => undefined });"
+              ),
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: withTypes("const n = option.expect('There should be one');"),
+      errors: [
+        {
+          messageId: "unsafeUnwrap",
+          data: { method: "expect", kind: "Option", failure: "`None`" },
+          suggestions: [
+            {
+              messageId: "useUnwrapOr",
+              output: withTypes("const n = option.unwrapOr(undefined);"),
+            },
+            {
+              messageId: "useMatch",
+              output: withTypes(
+                "const n = option.match({ some: (value) => value, none: () => undefined });"
+              ),
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: withTypes("if (!result.isOk) { result.unwrap(); }"),
+      errors: [
+        {
+          messageId: "unsafeUnwrap",
+          suggestions: [
+            {
+              messageId: "useUnwrapOr",
+              output: withTypes(
+                "if (!result.isOk) { result.unwrapOr(undefined); }"
+              ),
+            },
+            {
+              messageId: "useMatch",
+              output: withTypes(
+                "if (!result.isOk) { result.match({ ok: (value) => value, err: () => undefined }); }"
+              ),
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
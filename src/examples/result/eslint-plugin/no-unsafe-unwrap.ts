@@ -0,0 +1,97 @@
+/**
+ * Report `unwrap()` and `expect()` on a Result or Option that hasn't been checked, as they throw for an `Err` or `None`.
+ *
+ * A value only counts as checked when TypeScript has narrowed it to an `Ok` or `Some`, E.g. inside
+ * `if (result.isOk)`, or after `Result.assertOk(result)`. There are suggestions to replace the call with `unwrapOr`
+ * or `match`, which handle the other case instead of throwing.
+ *
+ * E.g.
+ * ```ts
+ * getUser(id).unwrap(); // Reported
+ *
+ * const user = getUser(id);
+ * if (user.isOk) {
+ *   user.unwrap(); // Allowed
+ * }
+ * ```
+ */
+
+import { AST_NODE_TYPES, ESLintUtils } from "@typescript-eslint/utils";
+import { createRule } from "./create-rule";
+import { describeVariants, variantsOf } from "./variants";
+
+const unwrapMethods = new Set(["unwrap", "expect"]);
+
+const noUnsafeUnwrap = createRule({
+  name: "no-unsafe-unwrap",
+  meta: {
+    type: "problem",
+    docs: {
+      description:
+        "Disallow unwrapping a Result or Option that could be an `Err` or `None`",
+      requiresTypeChecking: true,
+    },
+    hasSuggestions: true,
+    messages: {
+      unsafeUnwrap:
+        "`{{ method }}()` throws if this {{ kind }} is {{ failure }}. Check it first, or handle both cases.",
+      useUnwrapOr: "Use `unwrapOr(undefined)` instead.",
+      useMatch: "Use `match` instead.",
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const services = ESLintUtils.getParserServices(context);
+    return {
+      CallExpression(node) {
+        const { callee } = node;
+        if (
+          callee.type !== AST_NODE_TYPES.MemberExpression ||
+          callee.property.type !== AST_NODE_TYPES.Identifier ||
+          !unwrapMethods.has(callee.property.name)
+        ) {
+          return;
+        }
+        const variants = variantsOf(services.getTypeAtLocation(callee.object));
+        if (!variants || !(variants.has("Err") || variants.has("None"))) {
+          return;
+        }
+        const isResult = variants.has("Err");
+        // Replace everything from the method name to the end of the call, so the arguments of `expect` go too.
+        const range: [number, number] = [
+          callee.property.range[0],
+          node.range[1],
+        ];
+        context.report({
+          node,
+          messageId: "unsafeUnwrap",
+          data: {
+            method: callee.property.name,
+            kind: describeVariants(variants),
+            failure: isResult ? "an `Err`" : "`None`",
+          },
+          suggest: [
+            {
+              messageId: "useUnwrapOr",
+              fix: (fixer) =>
+                fixer.replaceTextRange(range, "unwrapOr(undefined)"),
+            },
+            {
+              messageId: "useMatch",
+              fix: (fixer) =>
+                fixer.replaceTextRange(
+                  range,
+                  isResult
+                    ? "match({ ok: (value) => value, err: () => undefined })"
+                    : "match({ some: (value) => value, none: () => undefined })"
+                ),
+            },
+          ],
+        });
+      },
+    };
+  },
+});
+
+export { noUnsafeUnwrap };
@@ -0,0 +1,40 @@
+/**
+ * A `RuleTester` set up for the rules in this plugin, for use in their tests.
+ *
+ * The rules need type information, so the code in each test is checked as if it were in `fixtures/file.ts`.
+ */
+
+import * as path from "node:path";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import { afterAll, describe, it } from "vitest";
+
+// `RuleTester` creates a test for each case, using the test framework's functions.
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+RuleTester.itOnly = it.only;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      project: "./tsconfig.json",
+      tsconfigRootDir: path.join(__dirname, "fixtures"),
+    },
+  },
+});
+
+/** Add the imports that every test needs, and some values to test with. */
+function withTypes(code: string): string {
+  return `
+    import { Result } from "../../result";
+    import { Option } from "../../option";
+    import { AsyncResult } from "../../async-result";
+    declare const result: Result<number, string>;
+    declare const option: Option<number>;
+    declare const asyncResult: AsyncResult<number, string>;
+    declare function save(): Result<void, string>;
+    ${code}
+  `;
+}
+
+export { ruleTester, withTypes };
@@ -0,0 +1,43 @@
+/**
+ * Work out whether a type is a Result, Option or AsyncResult, using the TypeScript type checker.
+ *
+ * A `Result<T, E>` is the union `Ok<T> | Err<E>`, and narrowing it with `isOk`, `Result.isOk` or `assertOk` removes
+ * the `Err`. So the checker's type at any point says which variants a value could still be, and the rules only need
+ * to look at the names of the classes in it.
+ */
+
+import type * as ts from "typescript";
+
+type Variant = "Ok" | "Err" | "Some" | "None" | "AsyncResult";
+
+const variants: ReadonlySet<string> = new Set<Variant>([
+  "Ok",
+  "Err",
+  "Some",
+  "None",
+  "AsyncResult",
+]);
+
+/** The variants a type could be, or `undefined` if it isn't made up only of Results, Options and AsyncResults.
+ *
+ * This goes by the names of the types, so another library's `Ok` class would count too. That is rarely a problem,
+ * as a value with the same name almost always means the same thing.
+ */
+function variantsOf(type: ts.Type): ReadonlySet<Variant> | undefined {
+  const names = (type.isUnion() ? type.types : [type]).map((member) =>
+    member.getSymbol()?.getName()
+  );
+  return names.every((name) => name !== undefined && variants.has(name))
+    ? new Set(names as Variant[])
+    : undefined;
+}
+
+/** The name to use for a type with these variants in a message. */
+function describeVariants(found: ReadonlySet<Variant>): string {
+  if (found.has("AsyncResult")) {
+    return "AsyncResult";
+  }
+  return found.has("Ok") || found.has("Err") ? "Result" : "Option";
+}
+
+export { Variant, variantsOf, describeVariants };
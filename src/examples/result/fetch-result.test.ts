@@ -0,0 +1,218 @@
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  afterEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
+import {
+  Decoder,
+  ResponseDecodeError,
+  HttpTimeoutError,
+  NetworkError,
+  StatusError,
+  fetchResult,
+} from "./fetch-result";
+import { match } from "./match";
+import { Schema } from "./schema";
+
+describe("fetchResult", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** A stand-in for `fetch` that always responds with `body` and `status`. */
+  function respond(body: string, status = 200) {
+    return vi.fn(
+      async (_input: RequestInfo | URL, _init?: RequestInit) =>
+        new Response(body, { status })
+    );
+  }
+
+  /** A stand-in for `fetch` that never responds, but rejects when its signal is aborted, like the real one. */
+  function hang(_input: RequestInfo | URL, init?: RequestInit) {
+    return new Promise<Response>((_, reject) =>
+      init?.signal?.addEventListener("abort", () =>
+        reject(new DOMException("Aborted", "AbortError"))
+      )
+    );
+  }
+
+  const User = Schema.object({ id: Schema.number(), name: Schema.string() });
+
+  it("should decode the body as JSON by default", async () => {
+    const fetch = respond('{"id":1}');
+    const result = await fetchResult("/users/1", { fetch });
+    expect(result.unwrap()).toEqual({ id: 1 });
+  });
+
+  it("should pass the request options on to fetch", async () => {
+    const fetch = respond("{}");
+    await fetchResult("/users", { fetch, method: "POST", body: "{}" });
+    expect(fetch).toHaveBeenCalledWith(
+      "/users",
+      expect.objectContaining({ method: "POST", body: "{}" })
+    );
+  });
+
+  it("should decode the body with a schema", async () => {
+    const result = await fetchResult("/users/1", {
+      fetch: respond('{"id":1,"name":"Ada"}'),
+      decoder: Decoder.schema(User),
+    });
+    expect(result.unwrap().name).toBe("Ada");
+  });
+
+  it("should decode the body as text", async () => {
+    const result = await fetchResult("/", {
+      fetch: respond("hello"),
+      decoder: Decoder.text(),
+    });
+    expect(result.unwrap()).toBe("hello");
+  });
+
+  it("should return a status error with the body", async () => {
+    const result = await fetchResult("/users/2", {
+      fetch: respond("No such user", 404),
+    });
+    !result.isOk && expect(result.error).toBeInstanceOf(StatusError);
+    !result.isOk &&
+      expect(result.error).toMatchObject({
+        kind: "status",
+        status: 404,
+        body: "No such user",
+      });
+  });
+
+  it("should return a network error when fetch rejects", async () => {
+    const cause = new TypeError("fetch failed");
+    const result = await fetchResult("/", {
+      fetch: () => Promise.reject(cause),
+    });
+    !result.isOk && expect(result.error).toBeInstanceOf(NetworkError);
+    !result.isOk && expect(result.error.cause).toBe(cause);
+  });
+
+  it("should return a decode error for a body that isn't JSON", async () => {
+    const result = await fetchResult("/", { fetch: respond("<html>") });
+    !result.isOk && expect(result.error).toBeInstanceOf(ResponseDecodeError);
+    !result.isOk && expect(result.error.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it("should return a decode error caused by the schema's errors", async () => {
+    const result = await fetchResult("/", {
+      fetch: respond('{"id":"1"}'),
+      decoder: Decoder.schema(User),
+    });
+    expect(result.isOk).toBe(false);
+    !result.isOk &&
+      expect(result.error.cause).toEqual([
+        expect.objectContaining({ path: "$.id", expected: "number" }),
+        expect.objectContaining({ path: "$.name", expected: "string" }),
+      ]);
+  });
+
+  it("should return a decode error when the decoder throws", async () => {
+    const result = await fetchResult("/", {
+      fetch: respond("{}"),
+      decoder: () => {
+        throw new Error("bug");
+      },
+    });
+    !result.isOk && expect(result.error.kind).toBe("decode");
+  });
+
+  it("should abort the request and return a timeout error", async () => {
+    vi.useFakeTimers();
+    const pending = fetchResult("/", { fetch: hang, timeoutMs: 1000 });
+    await vi.advanceTimersByTimeAsync(1000);
+    const result = await pending;
+
+    !result.isOk && expect(result.error).toBeInstanceOf(HttpTimeoutError);
+    !result.isOk &&
+      expect(result.error.message).toBe("No response after 1000ms");
+  });
+
+  it("should clear the timer when the response arrives in time", async () => {
+    vi.useFakeTimers();
+    await fetchResult("/", { fetch: respond("{}"), timeoutMs: 1000 });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should return a network error when the caller aborts", async () => {
+    const controller = new AbortController();
+    const pending = fetchResult("/", {
+      fetch: hang,
+      signal: controller.signal,
+      timeoutMs: 1000,
+    });
+    controller.abort();
+    const result = await pending;
+    !result.isOk && expect(result.error.kind).toBe("network");
+  });
+
+  it("should give an error that can be matched on", async () => {
+    const result = await fetchResult("/", { fetch: respond("", 500) });
+    const message = result.match({
+      ok: () => "ok",
+      err: (error) =>
+        match(error, "kind", {
+          network: () => "Check your connection",
+          timeout: ({ ms }) => `Gave up after ${ms}ms`,
+          status: ({ status }) => `The server returned ${status}`,
+          decode: () => "The server sent something unexpected",
+        }),
+    });
+    expect(message).toBe("The server returned 500");
+  });
+
+  describe("with a local server", () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+      server = createServer((request, response) => {
+        if (request.url === "/users/1") {
+          response.setHeader("Content-Type", "application/json");
+          response.end(JSON.stringify({ id: 1, name: "Ada" }));
+        } else {
+          response.statusCode = 404;
+          response.end("Not found");
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should fetch and decode a real response", async () => {
+      const result = await fetchResult(`${url}/users/1`, {
+        decoder: Decoder.schema(User),
+      });
+      expect(result.unwrap()).toEqual({ id: 1, name: "Ada" });
+    });
+
+    it("should return a real error status", async () => {
+      const result = await fetchResult(`${url}/users/2`);
+      !result.isOk && expect(result.error).toMatchObject({ status: 404 });
+    });
+
+    it("should return a network error when nothing is listening", async () => {
+      const closed = createServer();
+      await new Promise<void>((resolve) => closed.listen(0, resolve));
+      const port = (closed.address() as AddressInfo).port;
+      await new Promise((resolve) => closed.close(resolve));
+
+      const result = await fetchResult(`http://localhost:${port}`);
+      expect(result.isOk).toBe(false);
+      !result.isOk && expect(result.error.kind).toBe("network");
+    });
+  });
+});
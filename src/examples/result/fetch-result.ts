@@ -0,0 +1,168 @@
+/**
+ * A wrapper around `fetch` that returns an `AsyncResult` instead of throwing, and treats an error status as an error.
+ *
+ * The built-in `fetch` only rejects when the request couldn't be made at all. A 404 or 500 resolves like a 200 does,
+ * and reading the body can throw again later. `fetchResult` puts every way that a request can fail into a single
+ * `HttpError` union, so the caller can see them all in the type, and handle each one:
+ *
+ * - `network`: the request couldn't be made, E.g. the server couldn't be reached
+ * - `timeout`: there was no response within `timeoutMs`
+ * - `status`: the response had a status outside of 200-299. The body is kept, as APIs often explain the error in it
+ * - `decode`: the body couldn't be decoded, E.g. it wasn't JSON, or didn't match the schema
+ *
+ * E.g.
+ * ```ts
+ * const User = Schema.object({ id: Schema.string(), name: Schema.string() });
+ *
+ * const message = await fetchResult(`/api/users/${id}`, { decoder: Decoder.schema(User), timeoutMs: 5000 })
+ *   .map((user) => `Hello ${user.name}`)
+ *   .unwrapOr("Something went wrong");
+ * ```
+ */
+
+import { AsyncResult } from "./async-result";
+import { taggedError } from "./errors";
+import { Result } from "./result";
+import { Schema } from "./schema";
+
+class NetworkError extends taggedError("network")<{ cause: unknown }> {
+  constructor(cause: unknown) {
+    super({ cause });
+    this.message = "The request could not be made";
+  }
+}
+
+class HttpTimeoutError extends taggedError("timeout")<{ ms: number }> {
+  constructor(ms: number) {
+    super({ ms });
+    this.message = `No response after ${ms}ms`;
+  }
+}
+
+class StatusError extends taggedError("status")<{
+  status: number;
+  body: string;
+}> {
+  constructor(status: number, body: string) {
+    super({ status, body });
+    this.message = `The response had status ${status}`;
+  }
+}
+
+class ResponseDecodeError extends taggedError("decode")<{ cause: unknown }> {
+  constructor(cause: unknown) {
+    super({ cause });
+    this.message = "The response body could not be decoded";
+  }
+}
+
+/** Every way that `fetchResult` can fail. Narrow it by checking `kind`, or handle it with `match(error, "kind", ...)`. */
+type HttpError =
+  | NetworkError
+  | HttpTimeoutError
+  | StatusError
+  | ResponseDecodeError;
+
+/** Read the body of a successful response as a `T`. The error of an `Err` becomes the `cause` of a `ResponseDecodeError`. */
+type Decoder<T> = (
+  response: Response
+) => Result<T, unknown> | PromiseLike<Result<T, unknown>>;
+
+namespace Decoder {
+  /** Parse the body as JSON, without checking what it contains. */
+  export function json(): Decoder<unknown> {
+    return (response) => Result.fromPromise(response.json(), (error) => error);
+  }
+
+  export function text(): Decoder<string> {
+    return (response) => Result.fromPromise(response.text(), (error) => error);
+  }
+
+  /** Parse the body as JSON, and check it against a schema. A mismatch is a `ResponseDecodeError` caused by the `ValidationError`s. */
+  export function schema<T>(schema: Schema<T>): Decoder<T> {
+    return (response) =>
+      Result.fromPromise(response.json(), (error) => error).andThen((data) =>
+        schema.parse(data)
+      );
+  }
+}
+
+interface FetchResultOptions<T> extends RequestInit {
+  /** How to read the body of a successful response. Defaults to `Decoder.json()`. */
+  decoder?: Decoder<T>;
+  /** Abort the request, and return a `timeout` error, if it hasn't finished after this many milliseconds. */
+  timeoutMs?: number;
+  /** The `fetch` to use instead of the global one, E.g. a stand-in for tests, or one that adds authentication. */
+  fetch?: typeof fetch;
+}
+
+/** Make an HTTP request, and decode the response, returning any failure as an `HttpError`.
+ *
+ * Apart from the options above, the options are passed on to `fetch`. A `signal` still works alongside `timeoutMs`,
+ * but aborting with it gives a `network` error, as it was the caller that stopped the request.
+ */
+function fetchResult<T = unknown>(
+  input: string | URL | Request,
+  options: FetchResultOptions<T> = {}
+): AsyncResult<T, HttpError> {
+  const {
+    decoder = Decoder.json() as Decoder<T>,
+    timeoutMs,
+    fetch: fetchFn = fetch,
+    ...init
+  } = options;
+
+  async function run(): Promise<Result<T, HttpError>> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs);
+    const signal = init.signal
+      ? AbortSignal.any([init.signal, controller.signal])
+      : controller.signal;
+
+    // Once the time is up, every failure is reported as a timeout, as aborting the request is what caused it.
+    const failed = (error: HttpError) =>
+      Result.err(timedOut ? new HttpTimeoutError(timeoutMs!) : error);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetchFn(input, { ...init, signal });
+      } catch (cause) {
+        return failed(new NetworkError(cause));
+      }
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        return failed(new StatusError(response.status, body));
+      }
+      // A decoder that throws, such as one that calls `JSON.parse` itself, still gives a `decode` error.
+      const decoded = await Promise.resolve(response)
+        .then(decoder)
+        .catch((cause: unknown) => Result.err(cause));
+      return decoded.isOk
+        ? decoded
+        : failed(new ResponseDecodeError(decoded.error));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return AsyncResult.fromResult(run());
+}
+
+export {
+  fetchResult,
+  Decoder,
+  HttpError,
+  NetworkError,
+  HttpTimeoutError,
+  StatusError,
+  ResponseDecodeError,
+  FetchResultOptions,
+};
@@ -0,0 +1,99 @@
+import { describe, it, expectTypeOf } from "vitest";
+import {
+  andThen,
+  filter,
+  flow,
+  map,
+  mapErr,
+  match,
+  okOr,
+  pipe,
+  unwrap,
+  unwrapOr,
+} from "./fp";
+import { Option } from "./option";
+import { Result } from "./result";
+
+// These tests are only type checked, and never run. See `result.test-d.ts`.
+
+declare const result: Result<number, string>;
+declare const option: Option<number>;
+declare function check(n: number): Result<boolean, Error>;
+
+describe("fp types", () => {
+  it("should infer the value type at each step of a pipe", () => {
+    expectTypeOf(pipe(result, map(String))).toEqualTypeOf<
+      Result<string, string>
+    >();
+    expectTypeOf(
+      pipe(
+        result,
+        map((n) => n * 2),
+        andThen(check)
+      )
+    ).toEqualTypeOf<Result<boolean, string | Error>>();
+    expectTypeOf(
+      pipe(
+        result,
+        mapErr((e) => e.length),
+        unwrapOr(null)
+      )
+    ).toEqualTypeOf<number | null>();
+  });
+
+  it("should keep Options as Options", () => {
+    expectTypeOf(pipe(option, map(String))).toEqualTypeOf<Option<string>>();
+    expectTypeOf(
+      pipe(
+        option,
+        andThen((n) => Option.some(n > 0))
+      )
+    ).toEqualTypeOf<Option<boolean>>();
+    expectTypeOf(pipe(option, okOr("missing"))).toEqualTypeOf<
+      Result<number, string>
+    >();
+    expectTypeOf(pipe(option, unwrap)).toEqualTypeOf<number>();
+  });
+
+  it("should pick the cases for match", () => {
+    expectTypeOf(
+      pipe(result, match({ ok: (n) => n > 0, err: (e) => e }))
+    ).toEqualTypeOf<boolean | string>();
+    expectTypeOf(
+      pipe(option, match({ some: (n) => n > 0, none: () => null }))
+    ).toEqualTypeOf<boolean | null>();
+    // @ts-expect-error - an Option needs `some` and `none` cases
+    pipe(option, match({ ok: (n) => n, err: (e) => e }));
+  });
+
+  it("should narrow with a type guard filter", () => {
+    const mixed = {} as Option<string | number>;
+    expectTypeOf(
+      pipe(
+        mixed,
+        filter((x): x is string => typeof x === "string")
+      )
+    ).toEqualTypeOf<Option<string>>();
+  });
+
+  it("should reject a step with the wrong input type", () => {
+    const length: (o: Option<string>) => Option<number> = map((s) => s.length);
+    // @ts-expect-error - `mapErr` only works on a Result
+    pipe(option, mapErr(String));
+    // @ts-expect-error - the value is a number, not a string
+    pipe(result, length);
+  });
+
+  it("should type flow from its first function, or from its context", () => {
+    expectTypeOf(
+      flow(
+        check,
+        map((ok) => !ok)
+      )
+    ).toEqualTypeOf<(n: number) => Result<boolean, Error>>();
+    const double: (r: Result<number, string>) => Result<number, string> = flow(
+      map((n) => n * 2)
+    );
+    expectTypeOf(double(result)).toEqualTypeOf<Result<number, string>>();
+  });
+});
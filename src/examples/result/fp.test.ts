@@ -0,0 +1,280 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  andThen,
+  context,
+  filter,
+  flow,
+  inspect,
+  inspectErr,
+  map,
+  mapBoth,
+  mapErr,
+  mapOr,
+  match,
+  okOr,
+  orElse,
+  pipe,
+  tap,
+  toOption,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+} from "./fp";
+import { Option } from "./option";
+import { Result } from "./result";
+import { ContextError, UnwrapError } from "./errors";
+
+describe("fp", () => {
+  function divide(a: number, b: number): Result<number, string> {
+    return b === 0 ? Result.err("Cannot divide by zero") : Result.ok(a / b);
+  }
+
+  function parse(input: string): Result<number, string> {
+    const n = Number(input);
+    return isNaN(n) ? Result.err(`Not a number: ${input}`) : Result.ok(n);
+  }
+
+  describe("pipe", () => {
+    it("should return the value when given no functions", () => {
+      expect(pipe(5)).toBe(5);
+    });
+
+    it("should pass a value through each function in order", () => {
+      const result = pipe(
+        "10",
+        parse,
+        andThen((n) => divide(n, 4)),
+        map((n) => n * 2),
+        unwrapOr(0)
+      );
+      expect(result).toBe(5);
+    });
+
+    it("should stop at the first Err", () => {
+      const result = pipe(
+        parse("a"),
+        andThen((n) => divide(n, 4)),
+        map((n) => n * 2)
+      );
+      !result.isOk && expect(result.error).toBe("Not a number: a");
+    });
+
+    it("should work with Options", () => {
+      const result = pipe(
+        Option.some(4),
+        map((n) => n + 1),
+        filter((n) => n > 1),
+        andThen((n) => (n > 10 ? Option.none : Option.some(n))),
+        match({ some: (n) => `Some ${n}`, none: () => "None" })
+      );
+      expect(result).toBe("Some 5");
+    });
+  });
+
+  describe("flow", () => {
+    it("should compose functions into one", () => {
+      const half = flow(
+        parse,
+        andThen((n) => divide(n, 2)),
+        unwrapOr(0)
+      );
+      expect(half("8")).toBe(4);
+      expect(half("a")).toBe(0);
+    });
+
+    it("should pass every argument to the first function", () => {
+      const safeDivide = flow(divide, mapOr("Failed", String));
+      expect(safeDivide(1, 2)).toBe("0.5");
+      expect(safeDivide(1, 0)).toBe("Failed");
+    });
+  });
+
+  describe("functions", () => {
+    const ok: Result<number, string> = Result.ok(5) as Result<number, string>;
+    const err: Result<number, string> = Result.err("boom") as Result<
+      number,
+      string
+    >;
+
+    it("should behave like the methods", () => {
+      // Results are compared as JSON, since `toEqual` would try to iterate over them.
+      expect(pipe(ok, map(String)).toJSON()).toEqual(ok.map(String).toJSON());
+      expect(pipe(err, map(String)).toJSON()).toEqual(err.map(String).toJSON());
+      expect(
+        pipe(
+          err,
+          mapErr((e) => e.length)
+        ).toJSON()
+      ).toEqual({ err: 4 });
+      expect(
+        pipe(
+          ok,
+          mapBoth(String, (e) => e.length)
+        ).toJSON()
+      ).toEqual({
+        ok: "5",
+      });
+      expect(
+        pipe(
+          err,
+          mapOr(0, (n) => n * 2)
+        )
+      ).toBe(0);
+      expect(
+        pipe(
+          err,
+          unwrapOrElse((e) => e.length)
+        )
+      ).toBe(4);
+      expect(pipe(ok, unwrap)).toBe(5);
+      expect(pipe(ok, toOption).unwrap()).toBe(5);
+    });
+
+    it("should recover from an Err with orElse", () => {
+      const result = pipe(
+        err,
+        orElse(() => Result.ok(0))
+      );
+      expect(result.unwrap()).toBe(0);
+    });
+
+    it("should add context to an Err", () => {
+      const result = pipe(err, context("Loading"));
+      !result.isOk && expect(result.error).toBeInstanceOf(ContextError);
+    });
+
+    it("should call inspect, inspectErr and tap, passing the value on", () => {
+      const seen: unknown[] = [];
+      const result = pipe(
+        ok,
+        inspect((value) => seen.push(value)),
+        inspectErr((error) => seen.push(error)),
+        tap((r) => seen.push(r.isOk))
+      );
+      expect(result).toBe(ok);
+      expect(seen).toEqual([5, true]);
+    });
+
+    it("should convert an Option to a Result with okOr", () => {
+      const result = pipe(Option.none as Option<number>, okOr("missing"));
+      !result.isOk && expect(result.error).toBe("missing");
+    });
+
+    it("should not call the methods of the same name", () => {
+      const prototype = Object.getPrototypeOf(ok);
+      const methods = [
+        "map",
+        "andThen",
+        "mapOr",
+        "match",
+        "unwrap",
+        "unwrapOr",
+      ];
+      const spies = methods.map((name) => vi.spyOn(prototype, name));
+
+      pipe(ok, map(String));
+      pipe(
+        ok,
+        andThen((n) => Result.ok(n))
+      );
+      pipe(
+        ok,
+        mapOr(0, (n) => n)
+      );
+      pipe(ok, match({ ok: (n) => n, err: () => 0 }));
+      pipe(ok, unwrap);
+      pipe(ok, unwrapOr(0));
+
+      for (const spy of spies) {
+        expect(spy).not.toHaveBeenCalled();
+        spy.mockRestore();
+      }
+    });
+
+    it("should behave like the methods on Options", () => {
+      const some = Option.some(5) as Option<number>;
+      const none = Option.none as Option<number>;
+
+      expect(pipe(some, map(String)).unwrap()).toBe("5");
+      expect(pipe(none, map(String)).isSome).toBe(false);
+      expect(
+        pipe(
+          none,
+          unwrapOrElse(() => 0)
+        )
+      ).toBe(0);
+      expect(pipe(some, match({ some: (n) => n, none: () => 0 }))).toBe(5);
+      expect(pipe(none, match({ some: (n) => n, none: () => 0 }))).toBe(0);
+      expect(() => pipe(none, unwrap)).toThrow(
+        new UnwrapError("Cannot unwrap None")
+      );
+      expect(pipe(some, okOr("missing")).unwrap()).toBe(5);
+      expect(
+        pipe(
+          some,
+          filter((n) => n > 5)
+        ).isSome
+      ).toBe(false);
+    });
+
+    it("should handle the other variant too", () => {
+      const seen: unknown[] = [];
+
+      expect(
+        pipe(
+          ok,
+          unwrapOrElse(() => 0)
+        )
+      ).toBe(5);
+      expect(pipe(ok, mapErr(String))).toBe(ok);
+      expect(
+        pipe(
+          ok,
+          orElse(() => Result.ok(0))
+        )
+      ).toBe(ok);
+      expect(pipe(ok, context("Loading"))).toBe(ok);
+      expect(
+        pipe(
+          err,
+          mapBoth(String, (e) => e.length)
+        ).toJSON()
+      ).toEqual({
+        err: 4,
+      });
+      expect(
+        pipe(
+          err,
+          inspectErr((e) => seen.push(e))
+        )
+      ).toBe(err);
+      expect(
+        pipe(
+          Option.some(5),
+          filter((n) => n > 1)
+        ).unwrap()
+      ).toBe(5);
+      expect(seen).toEqual(["boom"]);
+    });
+
+    it("should throw like unwrap on an Err, with the error as the cause", () => {
+      expect(() => pipe(err, unwrap)).toThrow(
+        new UnwrapError("Cannot unwrap Err")
+      );
+      expect(() => pipe(err, unwrap)).toThrow(
+        expect.objectContaining({ cause: "boom" })
+      );
+      expect(pipe(err, match({ ok: () => "", err: (e) => e }))).toBe("boom");
+      expect(pipe(err, toOption).isSome).toBe(false);
+    });
+
+    it("should narrow an Option with a type guard filter", () => {
+      const option = Option.some(5) as Option<string | number>;
+      const numbers: Option<number> = pipe(
+        option,
+        filter((x): x is number => typeof x === "number")
+      );
+      expect(numbers.unwrap()).toBe(5);
+    });
+  });
+});
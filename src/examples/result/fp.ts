@@ -0,0 +1,397 @@
+/**
+ * Standalone, curried versions of the `Result` and `Option` methods, for use with `pipe` and `flow`.
+ *
+ * Each function takes its arguments first, and returns a function that takes the Result or Option last ("data-last").
+ * This means operations can be stored, passed around and composed before there is anything to run them on.
+ *
+ * E.g.
+ * ```ts
+ * import { pipe, map, andThen, unwrapOr } from "./fp";
+ *
+ * const total = pipe(
+ *   parseNumber(input), // Result<number, string>
+ *   map((n) => n * 2),
+ *   andThen((n) => (n > 100 ? Result.err("Too big") : Result.ok(n))),
+ *   unwrapOr(0)
+ * ); // number
+ * ```
+ *
+ * Each function is written on its own, from `isOk` or `isSome` and the `value` or `error`, instead of calling the method
+ * of the same name, so a bundler can drop any of them that aren't imported. They behave the same as the methods, which
+ * the tests check side by side.
+ */
+
+import { ContextError, UnwrapError } from "./errors";
+import { Option, Some } from "./option";
+import { Err, Ok, Result } from "./result";
+
+/** Anything that the functions shared by Result and Option can be called on. */
+type Container = Result<unknown, unknown> | Option<unknown>;
+
+/** The value type of a Result or Option. */
+type ValueOf<C> = C extends Ok<infer T> | Some<infer T> ? T : never;
+
+/** The error type of a Result, or `never` for an Option. */
+type ErrorOf<C> = C extends Err<infer E> ? E : never;
+
+/** The same kind of container as `C`, holding a `T` instead, and for a Result, an `E`.
+ * `C` is wrapped in a tuple so that the conditional type isn't distributive. Otherwise `Ok<number> | Err<string>`
+ * would be checked one variant at a time, giving `Result<T, never> | Result<T, string>`.
+ */
+type Same<C, T, E = ErrorOf<C>> = [C] extends [Option<unknown>]
+  ? Option<T>
+  : Result<T, E>;
+
+/** The cases to pass to `match`, which depend on whether it is given a Result or an Option. */
+type Cases<C, R1, R2> = [C] extends [Option<unknown>]
+  ? { some: (value: ValueOf<C>) => R1; none: () => R2 }
+  : { ok: (value: ValueOf<C>) => R1; err: (error: ErrorOf<C>) => R2 };
+
+/** Whether a Result or Option holds a value, as an `Ok` or a `Some`. */
+function hasValue(container: Container): boolean {
+  return Option.is(container) ? container.isSome : container.isOk;
+}
+
+/** The value of an `Ok` or `Some`. Only call this after `hasValue`. */
+function valueOf<C extends Container>(container: C): ValueOf<C> {
+  return (container as Ok<ValueOf<C>> | Some<ValueOf<C>>).value;
+}
+
+/** The error of an `Err`. Only call this for a Result that doesn't have a value. */
+function errorOf<C extends Container>(container: C): ErrorOf<C> {
+  return (container as Err<ErrorOf<C>>).error;
+}
+
+// How the type parameters are inferred:
+// The `C` type parameter isn't used by the arguments, so TypeScript infers it from where the returned function is used.
+// In `pipe(result, map((x) => x + 1))`, the function returned by `map` is passed the `result`, so `C` is its type.
+// This is inferred before the arguments are checked, so `x` gets the value type of `result`.
+
+/** Map the value of a Result or Option. See `Result.map`. */
+function map<C extends Container, T2>(
+  fn: (value: ValueOf<C>) => T2
+): (container: C) => Same<C, T2> {
+  return (container) => {
+    if (!hasValue(container)) {
+      return container as Container as Same<C, T2>;
+    }
+    const value = fn(valueOf(container));
+    return (
+      Option.is(container) ? Option.some(value) : Result.ok(value)
+    ) as Same<C, T2>;
+  };
+}
+
+/** Chain an operation that returns a Result or Option. See `Result.andThen`. */
+function andThen<C extends Container, R extends Container>(
+  fn: (value: ValueOf<C>) => R
+): (container: C) => Same<C, ValueOf<R>, ErrorOf<C> | ErrorOf<R>> {
+  return (container) =>
+    (hasValue(container)
+      ? fn(valueOf(container))
+      : container) as Container as Same<C, ValueOf<R>, ErrorOf<C> | ErrorOf<R>>;
+}
+
+/** Call a function with the value, for its side effects, and pass the Result or Option on unchanged. */
+function inspect<C extends Container>(
+  fn: (value: ValueOf<C>) => void
+): (container: C) => C {
+  return (container) => {
+    if (hasValue(container)) {
+      fn(valueOf(container));
+    }
+    return container;
+  };
+}
+
+/** Call a function with the whole Result or Option, and pass it on unchanged. */
+function tap<C extends Container>(
+  fn: (container: C) => void
+): (container: C) => C {
+  return (container) => {
+    fn(container);
+    return container;
+  };
+}
+
+/** Map the value, or return `defaultValue` for an `Err` or `None`. */
+function mapOr<C extends Container, D, T2>(
+  defaultValue: D,
+  fn: (value: ValueOf<C>) => T2
+): (container: C) => D | T2 {
+  return (container) =>
+    hasValue(container) ? fn(valueOf(container)) : defaultValue;
+}
+
+/** Handle both cases, with `{ ok, err }` for a Result, or `{ some, none }` for an Option. */
+function match<C extends Container, R1, R2>(
+  cases: Cases<C, R1, R2>
+): (container: C) => R1 | R2 {
+  return (container) => {
+    if (Option.is(container)) {
+      const { some, none } = cases as Cases<Option<ValueOf<C>>, R1, R2>;
+      return hasValue(container) ? some(valueOf(container)) : none();
+    }
+    const { ok, err } = cases as {
+      ok: (value: ValueOf<C>) => R1;
+      err: (error: ErrorOf<C>) => R2;
+    };
+    return hasValue(container)
+      ? ok(valueOf(container))
+      : err(errorOf(container));
+  };
+}
+
+/** Get the value out, or throw an `UnwrapError`. Unlike the other functions, this takes the Result or Option directly. */
+function unwrap<C extends Container>(container: C): ValueOf<C> {
+  if (hasValue(container)) {
+    return valueOf(container);
+  }
+  throw Option.is(container)
+    ? new UnwrapError("Cannot unwrap None")
+    : new UnwrapError("Cannot unwrap Err", { cause: errorOf(container) });
+}
+
+function unwrapOr<C extends Container, D>(
+  defaultValue: D
+): (container: C) => ValueOf<C> | D {
+  return (container) =>
+    hasValue(container) ? valueOf(container) : defaultValue;
+}
+
+/** For a Result, `fn` is given the error. For an Option, it is given nothing. */
+function unwrapOrElse<C extends Container, D>(
+  fn: (error: ErrorOf<C>) => D
+): (container: C) => ValueOf<C> | D {
+  return (container) => {
+    if (hasValue(container)) {
+      return valueOf(container);
+    }
+    return Option.is(container) ? (fn as () => D)() : fn(errorOf(container));
+  };
+}
+
+// The functions below only work on one of Result or Option, so they can use `Result` or `Option` directly.
+
+function mapErr<T, E, E2>(
+  fn: (error: E) => E2
+): (result: Result<T, E>) => Result<T, E2> {
+  return (result) => (result.isOk ? result : Result.err(fn(result.error)));
+}
+
+function mapBoth<T, E, T2, E2>(
+  okFn: (value: T) => T2,
+  errFn: (error: E) => E2
+): (result: Result<T, E>) => Result<T2, E2> {
+  return (result) =>
+    result.isOk
+      ? Result.ok(okFn(result.value))
+      : Result.err(errFn(result.error));
+}
+
+function orElse<T, E, T2, E2>(
+  fn: (error: E) => Result<T2, E2>
+): (result: Result<T, E>) => Result<T | T2, E2> {
+  return (result) => (result.isOk ? result : fn(result.error));
+}
+
+function inspectErr<T, E>(
+  fn: (error: E) => void
+): (result: Result<T, E>) => Result<T, E> {
+  return (result) => {
+    if (!result.isOk) {
+      fn(result.error);
+    }
+    return result;
+  };
+}
+
+function context<T, E>(
+  message: string
+): (result: Result<T, E>) => Result<T, ContextError<E>> {
+  return (result) =>
+    result.isOk ? result : Result.err(new ContextError(message, result.error));
+}
+
+function toOption<T, E>(result: Result<T, E>): Option<T> {
+  return result.isOk ? Option.some(result.value) : Option.none;
+}
+
+function filter<T, S extends T = T>(
+  predicate: ((value: T) => value is S) | ((value: T) => boolean)
+): (option: Option<T>) => Option<S> {
+  return (option) =>
+    option.isSome && predicate(option.value)
+      ? (option as Option<S>)
+      : Option.none;
+}
+
+function okOr<T, E>(error: E): (option: Option<T>) => Result<T, E> {
+  return (option) =>
+    option.isSome ? Result.ok(option.value) : Result.err(error);
+}
+
+/** Pass a value through a series of functions, from left to right.
+ *
+ * `pipe(x, f, g, h)` is the same as `h(g(f(x)))`, but reads in the order that things happen.
+ * There is an overload for each number of functions, so that the type passed between each step is checked.
+ */
+function pipe<A>(a: A): A;
+function pipe<A, B>(a: A, ab: (a: A) => B): B;
+function pipe<A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C;
+function pipe<A, B, C, D>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D
+): D;
+function pipe<A, B, C, D, E>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E
+): E;
+function pipe<A, B, C, D, E, F>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F
+): F;
+function pipe<A, B, C, D, E, F, G>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G
+): G;
+function pipe<A, B, C, D, E, F, G, H>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H
+): H;
+function pipe<A, B, C, D, E, F, G, H, I>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I
+): I;
+function pipe<A, B, C, D, E, F, G, H, I, J>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J
+): J;
+function pipe(
+  value: unknown,
+  ...fns: ((value: unknown) => unknown)[]
+): unknown {
+  return fns.reduce((acc, fn) => fn(acc), value);
+}
+
+/** Compose functions from left to right, into a single function. `flow(f, g)` is the same as `(x) => g(f(x))`.
+ *
+ * Unlike `pipe`, there is no value to infer the input type from, so it must come from somewhere else.
+ * Either annotate the first function's parameter, or give the result a type, E.g.
+ * ```ts
+ * const double: (result: Result<number, string>) => Result<number, string> = flow(map((n) => n * 2));
+ * ```
+ */
+function flow<A extends unknown[], B>(ab: (...a: A) => B): (...a: A) => B;
+function flow<A extends unknown[], B, C>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C
+): (...a: A) => C;
+function flow<A extends unknown[], B, C, D>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D
+): (...a: A) => D;
+function flow<A extends unknown[], B, C, D, E>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E
+): (...a: A) => E;
+function flow<A extends unknown[], B, C, D, E, F>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F
+): (...a: A) => F;
+function flow<A extends unknown[], B, C, D, E, F, G>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G
+): (...a: A) => G;
+function flow<A extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H
+): (...a: A) => H;
+function flow<A extends unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I
+): (...a: A) => I;
+function flow(
+  first: (...args: unknown[]) => unknown,
+  ...rest: ((value: unknown) => unknown)[]
+): (...args: unknown[]) => unknown {
+  return (...args) => rest.reduce((acc, fn) => fn(acc), first(...args));
+}
+
+export {
+  pipe,
+  flow,
+  map,
+  andThen,
+  inspect,
+  tap,
+  mapOr,
+  match,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+  mapErr,
+  mapBoth,
+  orElse,
+  inspectErr,
+  context,
+  toOption,
+  filter,
+  okOr,
+};
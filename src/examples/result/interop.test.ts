@@ -0,0 +1,197 @@
+import Module from "node:module";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Either as EffectEither, Option as EffectOption } from "effect";
+import * as FpEither from "fp-ts/Either";
+import * as FpOption from "fp-ts/Option";
+import { ResultAsync, err, ok } from "neverthrow";
+import { AsyncResult } from "./async-result";
+import { taggedError } from "./errors";
+import {
+  fromEffectEither,
+  fromEffectOption,
+  fromEither,
+  fromFpOption,
+  fromNeverthrow,
+  fromNeverthrowAsync,
+  fromNullable,
+  fromSettled,
+  toEffectEither,
+  toEffectOption,
+  toEither,
+  toFpOption,
+  toNeverthrow,
+  toNeverthrowAsync,
+  toNullable,
+  toSettled,
+} from "./interop";
+import { None, Option, Some } from "./option";
+import { Err, Ok, Result } from "./result";
+
+describe("interop", () => {
+  class NotFound extends taggedError("NotFound")<{ id: string }> {}
+
+  const okResult = Result.ok(5) as Result<number, NotFound>;
+  const errResult = Result.err(new NotFound({ id: "1" })) as Result<
+    number,
+    NotFound
+  >;
+
+  describe("neverthrow", () => {
+    it("should convert from neverthrow", () => {
+      expect(fromNeverthrow(ok(5))).toBeInstanceOf(Ok);
+      expect(fromNeverthrow(ok(5)).unwrap()).toBe(5);
+      const converted = fromNeverthrow(err("boom"));
+      expect(converted).toBeInstanceOf(Err);
+      expect(converted.unwrapErr()).toBe("boom");
+    });
+
+    it("should convert to neverthrow", () => {
+      const converted = toNeverthrow(okResult);
+      expect(converted.isOk()).toBe(true);
+      expect(converted._unsafeUnwrap()).toBe(5);
+      expect(toNeverthrow(errResult).isErr()).toBe(true);
+    });
+
+    it("should round-trip, keeping the same error", () => {
+      const roundTripped = fromNeverthrow(toNeverthrow(errResult));
+      expect(roundTripped.unwrapErr()).toBe(errResult.unwrapErr());
+      expect(roundTripped.unwrapErr().kind).toBe("NotFound");
+      expect(fromNeverthrow(toNeverthrow(okResult)).toJSON()).toEqual(
+        okResult.toJSON()
+      );
+    });
+
+    it("should convert a ResultAsync to an AsyncResult", async () => {
+      const converted = fromNeverthrowAsync(
+        ResultAsync.fromSafePromise(Promise.resolve(5))
+      );
+      expect(await converted.map((n) => n * 2).unwrapOr(0)).toBe(10);
+    });
+
+    it("should convert an AsyncResult to a ResultAsync", async () => {
+      const converted = toNeverthrowAsync(AsyncResult.err("boom"));
+      expect(converted).toBeInstanceOf(ResultAsync);
+      expect((await converted)._unsafeUnwrapErr()).toBe("boom");
+    });
+  });
+
+  describe("fp-ts", () => {
+    it("should convert an Either", () => {
+      expect(fromEither(FpEither.right(5)).unwrap()).toBe(5);
+      expect(fromEither(FpEither.left("boom")).unwrapErr()).toBe("boom");
+    });
+
+    it("should build the same Either as fp-ts", () => {
+      expect(toEither(okResult)).toEqual(FpEither.right(5));
+      expect(FpEither.isLeft(toEither(errResult))).toBe(true);
+    });
+
+    it("should round-trip an Either", () => {
+      const either = FpEither.left(new NotFound({ id: "2" }));
+      expect(toEither(fromEither(either))).toEqual(either);
+    });
+
+    it("should convert an Option", () => {
+      expect(fromFpOption(FpOption.some(5))).toBeInstanceOf(Some);
+      expect(fromFpOption(FpOption.none)).toBe(Option.none);
+      expect(toFpOption(Option.some(5))).toEqual(FpOption.some(5));
+      expect(toFpOption(Option.none)).toEqual(FpOption.none);
+    });
+  });
+
+  describe("Effect", () => {
+    it("should convert an Either", () => {
+      expect(fromEffectEither(EffectEither.right(5)).unwrap()).toBe(5);
+      expect(fromEffectEither(EffectEither.left("boom")).unwrapErr()).toBe(
+        "boom"
+      );
+    });
+
+    it("should build an Either with Effect's own methods", () => {
+      const converted = toEffectEither(okResult);
+      expect(EffectEither.isEither(converted)).toBe(true);
+      expect(EffectEither.getOrThrow(converted)).toBe(5);
+      expect(EffectEither.isLeft(toEffectEither(errResult))).toBe(true);
+    });
+
+    it("should round-trip an Either, keeping the same error", () => {
+      const roundTripped = fromEffectEither(toEffectEither(errResult));
+      expect(roundTripped.unwrapErr()).toBe(errResult.unwrapErr());
+    });
+
+    it("should convert an Option", () => {
+      expect(fromEffectOption(EffectOption.some(5)).unwrap()).toBe(5);
+      expect(fromEffectOption(EffectOption.none())).toBeInstanceOf(None);
+      expect(EffectOption.getOrThrow(toEffectOption(Option.some(5)))).toBe(5);
+      expect(EffectOption.isNone(toEffectOption(Option.none))).toBe(true);
+    });
+  });
+
+  describe("nullable", () => {
+    it("should convert a nullable value", () => {
+      expect(fromNullable(5, "missing").unwrap()).toBe(5);
+      expect(fromNullable(0, "missing").unwrap()).toBe(0);
+      expect(fromNullable(null, "missing").unwrapErr()).toBe("missing");
+      expect(fromNullable(undefined, "missing").unwrapErr()).toBe("missing");
+    });
+
+    it("should convert to a nullable value", () => {
+      expect(toNullable(okResult)).toBe(5);
+      expect(toNullable(errResult)).toBeNull();
+    });
+  });
+
+  describe("PromiseSettledResult", () => {
+    it("should convert the results of Promise.allSettled", async () => {
+      const settled = await Promise.allSettled([
+        Promise.resolve(5),
+        Promise.reject(new Error("boom")),
+      ]);
+      const [fulfilled, rejected] = settled.map(fromSettled);
+      expect(fulfilled.unwrap()).toBe(5);
+      expect(rejected.unwrapErr()).toEqual(new Error("boom"));
+    });
+
+    it("should round-trip a settled result", () => {
+      expect(toSettled(okResult)).toEqual({ status: "fulfilled", value: 5 });
+      expect(fromSettled(toSettled(errResult)).unwrapErr()).toBe(
+        errResult.unwrapErr()
+      );
+    });
+  });
+
+  describe("loading the libraries", () => {
+    // `require` in a module is built with `createRequire`, which calls `Module.prototype.require`.
+    function requireThrows(error: Error) {
+      vi.spyOn(Module.prototype, "require").mockImplementation(() => {
+        throw error;
+      });
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should say which package to install when it is missing", () => {
+      const missing = Object.assign(new Error("Cannot find module 'effect'"), {
+        code: "MODULE_NOT_FOUND",
+      });
+      requireThrows(missing);
+
+      expect(() => toEffectEither(Result.ok(1))).toThrow(
+        new Error("Install effect to convert to its types")
+      );
+      expect(() => toNeverthrow(Result.ok(1))).toThrow(
+        expect.objectContaining({ cause: missing })
+      );
+    });
+
+    it("should rethrow any other error", () => {
+      requireThrows(new SyntaxError("Unexpected token"));
+
+      expect(() => toEffectOption(Option.some(1))).toThrow(
+        new SyntaxError("Unexpected token")
+      );
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Conversions between `Result` and `Option` and the equivalent types from other libraries, and the built-in shapes
+ * that mean the same thing: nullable values and `PromiseSettledResult`s.
+ *
+ * These let code using this project's types call code using another library, and the other way around, so a codebase
+ * can move over one part at a time. Each `fromX` function converts to this project's types, and each `toX` function
+ * converts back, so `fromNeverthrow(toNeverthrow(result))` gives back an equal Result.
+ *
+ * - neverthrow's `Result` and `ResultAsync`: `fromNeverthrow`, `toNeverthrow`, `fromNeverthrowAsync` and `toNeverthrowAsync`
+ * - fp-ts's `Either` and `Option`: `fromEither`, `toEither`, `fromFpOption` and `toFpOption`
+ * - Effect's `Either` and `Option`: `fromEffectEither`, `toEffectEither`, `fromEffectOption` and `toEffectOption`
+ * - Nullable values: `fromNullable` and `toNullable`
+ * - `PromiseSettledResult`: `fromSettled` and `toSettled`
+ *
+ * None of the libraries are needed to use this project. They are only imported for their types, which are removed
+ * when compiling. The fp-ts types are plain objects, which are built here directly. neverthrow and Effect values have
+ * methods, so they are built with the library's own functions, which are loaded the first time they are needed.
+ * Converting to one of those without the library installed throws an error that says which package to install.
+ */
+
+import type * as Effect from "effect";
+import type { Either as EffectEither, Option as EffectOption } from "effect";
+import type { Either as FpEither } from "fp-ts/Either";
+import type { Option as FpOption } from "fp-ts/Option";
+import type * as Neverthrow from "neverthrow";
+import type {
+  Result as NeverthrowResult,
+  ResultAsync as NeverthrowResultAsync,
+} from "neverthrow";
+import { AsyncResult } from "./async-result";
+import { Option } from "./option";
+import { Result } from "./result";
+
+/** Load an optional peer dependency when a conversion needs it, so it doesn't have to be installed otherwise.
+ * The conversions are synchronous, so this can't use `import()`, which returns a promise. The type comes from the
+ * type-only import of the same package, which doesn't load anything. A missing package gives an error that says
+ * to install it, and any other error, such as one thrown while loading the package, is thrown as it is.
+ */
+function load<M>(name: string): M {
+  try {
+    return require(name) as M;
+  } catch (cause) {
+    if ((cause as { code?: unknown }).code === "MODULE_NOT_FOUND") {
+      throw new Error(`Install ${name} to convert to its types`, { cause });
+    }
+    throw cause;
+  }
+}
+
+function neverthrow(): typeof Neverthrow {
+  return load<typeof Neverthrow>("neverthrow");
+}
+
+function effect(): typeof Effect {
+  return load<typeof Effect>("effect");
+}
+
+function fromNeverthrow<T, E>(result: NeverthrowResult<T, E>): Result<T, E> {
+  return result.isOk() ? Result.ok(result.value) : Result.err(result.error);
+}
+
+function toNeverthrow<T, E>(result: Result<T, E>): NeverthrowResult<T, E> {
+  const { ok, err } = neverthrow();
+  return result.isOk ? ok(result.value) : err(result.error);
+}
+
+/** A `ResultAsync` is awaitable like an `AsyncResult`, so this waits for it, and converts the Result it resolves to. */
+function fromNeverthrowAsync<T, E>(
+  result: NeverthrowResultAsync<T, E>
+): AsyncResult<T, E> {
+  return AsyncResult.fromResult(Promise.resolve(result).then(fromNeverthrow));
+}
+
+function toNeverthrowAsync<T, E>(
+  result: AsyncResult<T, E>
+): NeverthrowResultAsync<T, E> {
+  const { ResultAsync } = neverthrow();
+  return new ResultAsync(Promise.resolve(result).then(toNeverthrow));
+}
+
+/** fp-ts puts the error first, as `Either<E, T>`, and the value on the `Right`, as in "right" meaning "correct". */
+function fromEither<E, T>(either: FpEither<E, T>): Result<T, E> {
+  return either._tag === "Right"
+    ? Result.ok(either.right)
+    : Result.err(either.left);
+}
+
+function toEither<T, E>(result: Result<T, E>): FpEither<E, T> {
+  return result.isOk
+    ? { _tag: "Right", right: result.value }
+    : { _tag: "Left", left: result.error };
+}
+
+function fromFpOption<T>(option: FpOption<T>): Option<T> {
+  return option._tag === "Some" ? Option.some(option.value) : Option.none;
+}
+
+function toFpOption<T>(option: Option<T>): FpOption<T> {
+  return option.isSome
+    ? { _tag: "Some", value: option.value }
+    : { _tag: "None" };
+}
+
+/** Unlike fp-ts, Effect puts the value first, as `Either<T, E>`, matching `Result<T, E>`. */
+function fromEffectEither<T, E>(
+  either: EffectEither.Either<T, E>
+): Result<T, E> {
+  return either._tag === "Right"
+    ? Result.ok(either.right)
+    : Result.err(either.left);
+}
+
+function toEffectEither<T, E>(result: Result<T, E>): EffectEither.Either<T, E> {
+  const { Either } = effect();
+  return result.isOk ? Either.right(result.value) : Either.left(result.error);
+}
+
+function fromEffectOption<T>(option: EffectOption.Option<T>): Option<T> {
+  return option._tag === "Some" ? Option.some(option.value) : Option.none;
+}
+
+function toEffectOption<T>(option: Option<T>): EffectOption.Option<T> {
+  const { Option: EffectOption } = effect();
+  return option.isSome ? EffectOption.some(option.value) : EffectOption.none();
+}
+
+/** Convert a value that may be `null` or `undefined` to a Result, with `error` for a missing value.
+ * See `Option.fromNullable` and `toNullable` for converting to and from an Option.
+ */
+function fromNullable<T, E>(
+  value: T | null | undefined,
+  error: E
+): Result<T, E> {
+  return value == null ? Result.err(error) : Result.ok(value);
+}
+
+/** Convert to the value, or `null` for an `Err`. The error is lost, so the only way back is `fromNullable`. */
+function toNullable<T, E>(result: Result<T, E>): T | null {
+  return result.isOk ? result.value : null;
+}
+
+/** Convert an element of the array from `Promise.allSettled`. A rejection reason could be anything, so it is `unknown`. */
+function fromSettled<T>(settled: PromiseSettledResult<T>): Result<T, unknown> {
+  return settled.status === "fulfilled"
+    ? Result.ok(settled.value)
+    : Result.err(settled.reason);
+}
+
+function toSettled<T, E>(result: Result<T, E>): PromiseSettledResult<T> {
+  return result.isOk
+    ? { status: "fulfilled", value: result.value }
+    : { status: "rejected", reason: result.error };
+}
+
+export {
+  fromNeverthrow,
+  toNeverthrow,
+  fromNeverthrowAsync,
+  toNeverthrowAsync,
+  fromEither,
+  toEither,
+  fromFpOption,
+  toFpOption,
+  fromEffectEither,
+  toEffectEither,
+  fromEffectOption,
+  toEffectOption,
+  fromNullable,
+  toNullable,
+  fromSettled,
+  toSettled,
+};
@@ -0,0 +1,68 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { AsyncResult } from "./async-result";
+import { AsyncIter, Iter } from "./iter";
+import { Option } from "./option";
+import { Result } from "./result";
+
+describe("Iter types", () => {
+  it("should wrap sync and async iterables in the matching type", () => {
+    expectTypeOf(Iter.from([1, 2])).toEqualTypeOf<Iter<number>>();
+    expectTypeOf(Iter.from(new Map<string, number>())).toEqualTypeOf<
+      Iter<[string, number]>
+    >();
+    expectTypeOf(Iter.from({} as AsyncIterable<string>)).toEqualTypeOf<
+      AsyncIter<string>
+    >();
+  });
+
+  it("should narrow with a type guard", () => {
+    const values = Iter.from([1, "a", null]);
+
+    expectTypeOf(
+      values.filter((value): value is string => typeof value === "string")
+    ).toEqualTypeOf<Iter<string>>();
+    expectTypeOf(
+      values.find((value): value is number => typeof value === "number")
+    ).toEqualTypeOf<Option<number>>();
+  });
+
+  it("should type zip and chunk", () => {
+    expectTypeOf(Iter.from([1]).zip(["a"])).toEqualTypeOf<
+      Iter<[number, string]>
+    >();
+    expectTypeOf(Iter.from([1]).chunk(2)).toEqualTypeOf<Iter<number[]>>();
+  });
+
+  it("should flatten Options and Results in flatMap", () => {
+    expectTypeOf(
+      Iter.from([1]).flatMap((n) => Option.some(String(n)))
+    ).toEqualTypeOf<Iter<string>>();
+    expectTypeOf(
+      Iter.from([1]).flatMap((n) => Result.ok(n) as Result<number, string>)
+    ).toEqualTypeOf<Iter<number>>();
+    expectTypeOf(
+      AsyncIter.from([1]).flatMap((n) => Option.some(n))
+    ).toEqualTypeOf<AsyncIter<number>>();
+  });
+
+  it("should only allow tryCollect on an Iter of Results", () => {
+    const results = Iter.from([Result.ok(1), Result.err("e")]);
+
+    expectTypeOf(results.tryCollect()).toEqualTypeOf<
+      Result<number[], string>
+    >();
+    // @ts-expect-error - the values are not Results
+    Iter.from([1]).tryCollect();
+  });
+
+  it("should return promises and AsyncResults from an AsyncIter", () => {
+    const iter = AsyncIter.from([Result.ok(1) as Result<number, string>]);
+
+    expectTypeOf(iter.first()).toEqualTypeOf<
+      Promise<Option<Result<number, string>>>
+    >();
+    expectTypeOf(iter.tryCollect()).toEqualTypeOf<
+      AsyncResult<number[], string>
+    >();
+  });
+});
@@ -0,0 +1,346 @@
+import { describe, it, expect, vi } from "vitest";
+import { AsyncIter, Iter } from "./iter";
+import { Option } from "./option";
+import { Result } from "./result";
+
+function* naturals() {
+  for (let n = 1; ; n++) {
+    yield n;
+  }
+}
+
+async function* fromAsync<T>(...values: T[]) {
+  yield* values;
+}
+
+const parse = (text: string) => {
+  const n = Number(text);
+  return Number.isNaN(n) ? Result.err(`Not a number: ${text}`) : Result.ok(n);
+};
+
+describe("Iter", () => {
+  describe("adapters", () => {
+    it("should map and filter lazily", () => {
+      const seen: number[] = [];
+      const iter = Iter.from([1, 2, 3, 4])
+        .map((n) => {
+          seen.push(n);
+          return n * 10;
+        })
+        .filter((n) => n > 10);
+
+      expect(seen).toEqual([]);
+      expect(iter.collect()).toEqual([20, 30, 40]);
+      expect(seen).toEqual([1, 2, 3, 4]);
+    });
+
+    it("should keep the values of Somes with filterMap", () => {
+      const iter = Iter.from(["1", "x", "3"]).filterMap((text) =>
+        parse(text).toOption()
+      );
+
+      expect(iter.collect()).toEqual([1, 3]);
+    });
+
+    it("should take from an infinite iterable without pulling any more", () => {
+      const pulled = vi.fn((n: number) => n);
+
+      const iter = Iter.from(naturals()).map(pulled).take(3);
+
+      expect(iter.collect()).toEqual([1, 2, 3]);
+      expect(pulled).toHaveBeenCalledTimes(3);
+      expect(Iter.from(naturals()).take(0).collect()).toEqual([]);
+      expect(Iter.from([1, 2]).take(5).collect()).toEqual([1, 2]);
+    });
+
+    it("should skip values", () => {
+      expect(Iter.from([1, 2, 3]).skip(2).collect()).toEqual([3]);
+      expect(Iter.from([1, 2, 3]).skip(5).collect()).toEqual([]);
+    });
+
+    it("should zip until either iterable runs out", () => {
+      expect(Iter.from([1, 2, 3]).zip("ab").collect()).toEqual([
+        [1, "a"],
+        [2, "b"],
+      ]);
+      expect(Iter.from([1]).zip(naturals()).collect()).toEqual([[1, 1]]);
+    });
+
+    it("should chunk values, with the rest in the last chunk", () => {
+      expect(Iter.from([1, 2, 3, 4, 5]).chunk(2).collect()).toEqual([
+        [1, 2],
+        [3, 4],
+        [5],
+      ]);
+      expect(Iter.from([1, 2]).chunk(2).collect()).toEqual([[1, 2]]);
+      expect(() => Iter.from([1]).chunk(0)).toThrow(
+        new RangeError("The chunk size must be a positive integer, not 0")
+      );
+    });
+
+    it("should flatten with flatMap", () => {
+      expect(
+        Iter.from([1, 2])
+          .flatMap((n) => [n, n * 10])
+          .collect()
+      ).toEqual([1, 10, 2, 20]);
+    });
+
+    it("should flatten Options and Results to their value, or nothing", () => {
+      const iter = Iter.from([1, 2, 3]);
+
+      expect(
+        iter.flatMap((n) => (n === 2 ? Option.none : Option.some(n))).collect()
+      ).toEqual([1, 3]);
+      expect(
+        iter
+          .flatMap((n) => (n === 2 ? Result.err("e") : Result.ok(n)))
+          .collect()
+      ).toEqual([1, 3]);
+    });
+
+    it("should iterate the characters of a string", () => {
+      expect(Iter.from("abc").collect()).toEqual(["a", "b", "c"]);
+    });
+
+    it("should iterate an array more than once", () => {
+      const iter = Iter.from([1, 2]).map((n) => n + 1);
+
+      expect([...iter]).toEqual([2, 3]);
+      expect([...iter]).toEqual([2, 3]);
+    });
+  });
+
+  describe("terminal operations", () => {
+    it("should return Some for values that are there", () => {
+      const iter = Iter.from([3, 1, 4, 1, 5]);
+
+      expect(iter.first().unwrap()).toBe(3);
+      expect(iter.last().unwrap()).toBe(5);
+      expect(iter.nth(2).unwrap()).toBe(4);
+      expect(iter.find((n) => n > 3).unwrap()).toBe(4);
+      expect(iter.max().unwrap()).toBe(5);
+      expect(iter.min().unwrap()).toBe(1);
+      expect(iter.reduce((sum, n) => sum + n).unwrap()).toBe(14);
+    });
+
+    it("should return None for values that are not there", () => {
+      const empty = Iter.from<number>([]);
+
+      expect(empty.first().isSome).toBe(false);
+      expect(empty.last().isSome).toBe(false);
+      expect(empty.max().isSome).toBe(false);
+      expect(empty.min().isSome).toBe(false);
+      expect(empty.reduce((sum, n) => sum + n).isSome).toBe(false);
+      expect(Iter.from([1]).nth(1).isSome).toBe(false);
+      expect(Iter.from([1, 2]).nth(-1).isSome).toBe(false);
+      expect(Iter.from([1, 2]).nth(0.5).isSome).toBe(false);
+      expect(Iter.from([1]).find((n) => n > 1).isSome).toBe(false);
+    });
+
+    it("should tell a found undefined apart from nothing found", () => {
+      const found = Iter.from([undefined, 1]).find((value) => value !== 1);
+
+      expect(found.isSome).toBe(true);
+    });
+
+    it("should stop at the first value for first and find", () => {
+      expect(
+        Iter.from(naturals())
+          .find((n) => n % 7 === 0)
+          .unwrap()
+      ).toBe(7);
+    });
+
+    it("should compare with the Ord passed to max and min", () => {
+      const words = Iter.from(["bb", "a", "cc", "d"]);
+      const byLength = (a: string, b: string) => a.length - b.length;
+
+      expect(words.max(byLength).unwrap()).toBe("cc");
+      expect(words.min(byLength).unwrap()).toBe("a");
+    });
+  });
+
+  describe("tryFold and tryCollect", () => {
+    it("should collect every value into an Ok", () => {
+      const result = Iter.from(["1", "2"]).map(parse).tryCollect();
+
+      expect(result.unwrap()).toEqual([1, 2]);
+    });
+
+    it("should stop at the first Err", () => {
+      const pulled = vi.fn(parse);
+
+      const result = Iter.from(["1", "x", "y"]).map(pulled).tryCollect();
+
+      !result.isOk && expect(result.error).toBe("Not a number: x");
+      expect(result.isOk).toBe(false);
+      expect(pulled).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fold with a function that can fail", () => {
+      const checkedSum = (sum: number, n: number) =>
+        sum + n > 10 ? Result.err("Too big") : Result.ok(sum + n);
+
+      expect(Iter.from([1, 2, 3]).tryFold(0, checkedSum).unwrap()).toBe(6);
+      expect(Iter.from([5, 5, 5]).tryFold(0, checkedSum).isOk).toBe(false);
+    });
+  });
+
+  describe("from", () => {
+    it("should wrap an async iterable in an AsyncIter", async () => {
+      const iter = Iter.from(fromAsync(1, 2));
+
+      expect(await iter.collect()).toEqual([1, 2]);
+    });
+
+    it("should convert to an AsyncIter", async () => {
+      const iter = Iter.from([1, 2]).toAsync();
+
+      expect(await iter.map(async (n) => n * 2).collect()).toEqual([2, 4]);
+    });
+  });
+});
+
+describe("AsyncIter", () => {
+  describe("adapters", () => {
+    it("should map and filter with async callbacks", async () => {
+      const iter = AsyncIter.from(fromAsync(1, 2, 3, 4))
+        .map(async (n) => n * 10)
+        .filter(async (n) => n > 10);
+
+      expect(await iter.collect()).toEqual([20, 30, 40]);
+    });
+
+    it("should keep the values of Somes with filterMap", async () => {
+      const iter = AsyncIter.from(["1", "x", "3"]).filterMap(async (text) =>
+        parse(text).toOption()
+      );
+
+      expect(await iter.collect()).toEqual([1, 3]);
+    });
+
+    it("should await promises in a sync iterable", async () => {
+      const iter = AsyncIter.from([Promise.resolve(1), 2]);
+
+      expect(await iter.collect()).toEqual([1, 2]);
+    });
+
+    it("should take and skip", async () => {
+      const pulled = vi.fn((n: number) => n);
+
+      expect(
+        await AsyncIter.from(naturals()).map(pulled).take(2).collect()
+      ).toEqual([1, 2]);
+      expect(pulled).toHaveBeenCalledTimes(2);
+      expect(await AsyncIter.from(naturals()).take(0).collect()).toEqual([]);
+      expect(await AsyncIter.from([1]).take(5).collect()).toEqual([1]);
+      expect(await AsyncIter.from([1, 2, 3]).skip(1).collect()).toEqual([2, 3]);
+    });
+
+    it("should zip with either kind of iterable", async () => {
+      expect(
+        await AsyncIter.from([1, 2, 3]).zip(fromAsync("a", "b")).collect()
+      ).toEqual([
+        [1, "a"],
+        [2, "b"],
+      ]);
+      expect(await AsyncIter.from([1]).zip(naturals()).collect()).toEqual([
+        [1, 1],
+      ]);
+    });
+
+    it("should chunk values", async () => {
+      expect(await AsyncIter.from([1, 2, 3]).chunk(2).collect()).toEqual([
+        [1, 2],
+        [3],
+      ]);
+      expect(await AsyncIter.from([1, 2]).chunk(2).collect()).toEqual([[1, 2]]);
+      expect(() => AsyncIter.from([1]).chunk(1.5)).toThrow(RangeError);
+    });
+
+    it("should flatten either kind of iterable with flatMap", async () => {
+      const iter = AsyncIter.from([1, 2]).flatMap((n) =>
+        n === 1 ? [n] : fromAsync(n, n)
+      );
+
+      expect(await iter.collect()).toEqual([1, 2, 2]);
+    });
+
+    it("should flatten Options and Results to their value, or nothing", async () => {
+      const iter = AsyncIter.from([1, 2, 3]).flatMap((n) =>
+        n === 2 ? Option.none : Result.ok(n)
+      );
+
+      expect(await iter.collect()).toEqual([1, 3]);
+    });
+
+    it("should iterate the characters of a string", async () => {
+      expect(await AsyncIter.from("abc").collect()).toEqual(["a", "b", "c"]);
+    });
+
+    it("should iterate with for await", async () => {
+      const values: number[] = [];
+      for await (const value of AsyncIter.from([1, 2])) {
+        values.push(value);
+      }
+
+      expect(values).toEqual([1, 2]);
+    });
+  });
+
+  describe("terminal operations", () => {
+    it("should return Some for values that are there", async () => {
+      const iter = AsyncIter.from([3, 1, 4, 1, 5]);
+
+      expect((await iter.first()).unwrap()).toBe(3);
+      expect((await iter.last()).unwrap()).toBe(5);
+      expect((await iter.nth(2)).unwrap()).toBe(4);
+      expect((await iter.find(async (n) => n > 3)).unwrap()).toBe(4);
+      expect((await iter.max()).unwrap()).toBe(5);
+      expect((await iter.min()).unwrap()).toBe(1);
+      expect((await iter.reduce(async (sum, n) => sum + n)).unwrap()).toBe(14);
+    });
+
+    it("should return None for values that are not there", async () => {
+      const empty = AsyncIter.from<number>([]);
+
+      expect((await empty.first()).isSome).toBe(false);
+      expect((await empty.last()).isSome).toBe(false);
+      expect((await empty.max()).isSome).toBe(false);
+      expect((await empty.min()).isSome).toBe(false);
+      expect((await AsyncIter.from([1, 2]).nth(-1)).isSome).toBe(false);
+      expect((await AsyncIter.from([1, 2]).nth(0.5)).isSome).toBe(false);
+    });
+  });
+
+  describe("tryFold and tryCollect", () => {
+    it("should collect every value into an Ok", async () => {
+      const result = await AsyncIter.from(["1", "2"])
+        .map(async (text) => parse(text))
+        .tryCollect();
+
+      expect(result.unwrap()).toEqual([1, 2]);
+    });
+
+    it("should stop at the first Err", async () => {
+      const pulled = vi.fn(parse);
+
+      const result = await AsyncIter.from(["1", "x", "y"])
+        .map(pulled)
+        .tryCollect();
+
+      !result.isOk && expect(result.error).toBe("Not a number: x");
+      expect(result.isOk).toBe(false);
+      expect(pulled).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return an AsyncResult from tryFold", async () => {
+      const total = await AsyncIter.from([1, 2, 3])
+        .tryFold(0, async (sum, n) => Result.ok(sum + n))
+        .map((sum) => sum * 2);
+
+      expect(total.unwrap()).toBe(12);
+    });
+  });
+});
@@ -0,0 +1,570 @@
+/**
+ * The Iter type is a lazy wrapper around any iterable, whose lookups return an `Option` instead of `undefined`.
+ *
+ * `array.find(isAdmin)` returns `undefined` when nothing matches, which can't be told apart from a matching
+ * `undefined` element, and is easy to forget to check. `Iter.from(array).find(isAdmin)` returns an `Option`, so the
+ * type says that there may be nothing there, in the same way as `Option.fromNullable`.
+ *
+ * An Iter is also lazy, like Rust's iterators. `map`, `filter` and the other adapters don't run anything, they
+ * describe a new Iter. The values are only pulled through, one at a time, by a terminal operation such as `first`,
+ * `collect`, or a `for...of` loop, so a chain can stop early without working through the whole input, and can even
+ * run over an infinite generator.
+ *
+ * E.g.
+ * ```ts
+ * const firstAdult: Option<string> = Iter.from(users)
+ *   .filter((user) => user.age >= 18)
+ *   .map((user) => user.name)
+ *   .first();
+ *
+ * const ids: Result<number[], string> = Iter.from(lines).map(parseId).tryCollect();
+ * ```
+ *
+ * `AsyncIter` is the asynchronous sibling, for async iterables such as a paginated API or a stream. Its callbacks
+ * can return promises, and its terminal operations return a promise, or an `AsyncResult`.
+ *
+ * An Iter can be iterated again if what it wraps can be, E.g. an array, but not if it wraps a generator, which can
+ * only be run once.
+ */
+
+import { AsyncResult } from "./async-result";
+import { Ord, compare } from "./equality";
+import { Option } from "./option";
+import { Result } from "./result";
+
+interface Iter<T> extends Iterable<T> {
+  map<U>(fn: (value: T) => U): Iter<U>;
+  filter<S extends T>(predicate: (value: T) => value is S): Iter<S>;
+  filter(predicate: (value: T) => boolean): Iter<T>;
+  /** Map each value to an Option, and keep the values of the `Some`s. A filter and a map in one step. */
+  filterMap<U>(fn: (value: T) => Option<U>): Iter<U>;
+  /** Stop after the first `count` values. Nothing after those is pulled from the iterable. */
+  take(count: number): Iter<T>;
+  skip(count: number): Iter<T>;
+  /** Pair each value with the value at the same position in `other`, stopping when either runs out. */
+  zip<U>(other: Iterable<U>): Iter<[T, U]>;
+  /** Group the values into arrays of `size`. The last array has the rest, so it may be shorter. */
+  chunk(size: number): Iter<T[]>;
+  /** Map each value to any number of values. An Option or Result gives its value if it is a `Some` or `Ok`, and
+   * nothing otherwise, as in Rust.
+   */
+  flatMap<U>(fn: (value: T) => Flattenable<U>): Iter<U>;
+  first(): Option<T>;
+  last(): Option<T>;
+  /** The value at `index`, counting from 0, or None if `index` isn't a non-negative integer. */
+  nth(index: number): Option<T>;
+  find<S extends T>(predicate: (value: T) => value is S): Option<S>;
+  find(predicate: (value: T) => boolean): Option<T>;
+  /** The largest value, by `ord`, or the last of them if there is a tie. Defaults to `compare` from `equality.ts`. */
+  max(ord?: Ord<T>): Option<T>;
+  /** The smallest value, by `ord`, or the first of them if there is a tie. */
+  min(ord?: Ord<T>): Option<T>;
+  /** Combine the values with `fn`, starting from the first one. Like `Array.prototype.reduce` with no initial value,
+   * but an empty Iter gives a `None`, instead of throwing.
+   */
+  reduce(fn: (accumulator: T, value: T) => T): Option<T>;
+  /** Combine the values with `fn`, stopping at the first `Err`. Nothing after it is pulled from the iterable. */
+  tryFold<A, E>(
+    initial: A,
+    fn: (accumulator: A, value: T) => Result<A, E>
+  ): Result<A, E>;
+  /** Collect an Iter of Results into an `Ok` of every value, or the first `Err`. See `Result.all`. */
+  tryCollect<U, E>(this: Iter<Result<U, E>>): Result<U[], E>;
+  collect(): T[];
+  toAsync(): AsyncIter<T>;
+}
+
+interface AsyncIter<T> extends AsyncIterable<T> {
+  map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncIter<U>;
+  filter<S extends T>(predicate: (value: T) => value is S): AsyncIter<S>;
+  filter(predicate: (value: T) => boolean | PromiseLike<boolean>): AsyncIter<T>;
+  filterMap<U>(
+    fn: (value: T) => Option<U> | PromiseLike<Option<U>>
+  ): AsyncIter<U>;
+  take(count: number): AsyncIter<T>;
+  skip(count: number): AsyncIter<T>;
+  zip<U>(other: AsyncIterable<U> | Iterable<U>): AsyncIter<[T, U]>;
+  chunk(size: number): AsyncIter<T[]>;
+  flatMap<U>(fn: (value: T) => AsyncIterable<U> | Flattenable<U>): AsyncIter<U>;
+  first(): Promise<Option<T>>;
+  last(): Promise<Option<T>>;
+  nth(index: number): Promise<Option<T>>;
+  find<S extends T>(predicate: (value: T) => value is S): Promise<Option<S>>;
+  find(
+    predicate: (value: T) => boolean | PromiseLike<boolean>
+  ): Promise<Option<T>>;
+  max(ord?: Ord<T>): Promise<Option<T>>;
+  min(ord?: Ord<T>): Promise<Option<T>>;
+  reduce(
+    fn: (accumulator: T, value: T) => T | PromiseLike<T>
+  ): Promise<Option<T>>;
+  tryFold<A, E>(
+    initial: A,
+    fn: (accumulator: A, value: T) => Result<A, E> | PromiseLike<Result<A, E>>
+  ): AsyncResult<A, E>;
+  tryCollect<U, E>(this: AsyncIter<Result<U, E>>): AsyncResult<U[], E>;
+  collect(): Promise<T[]>;
+}
+
+/** What `flatMap` accepts. */
+type Flattenable<U> = Option<U> | Result<U, unknown> | Iterable<U>;
+
+/** An Option or Result is iterable for `Option.gen` and `Result.gen`, which isn't the same as iterating its value,
+ * so it is turned into an array of its value, or an empty array, first.
+ */
+function flatten<U, I>(value: Option<U> | Result<U, unknown> | I): U[] | I {
+  if (Option.is(value)) {
+    return value.isSome ? [value.value as U] : [];
+  }
+  if (Result.is(value)) {
+    return value.isOk ? [value.value as U] : [];
+  }
+  return value as I;
+}
+
+/** Turn a generator function into an iterable that runs it again each time it is iterated. */
+function generate<T>(generator: () => Iterator<T>): Iterable<T> {
+  return { [Symbol.iterator]: generator };
+}
+
+function generateAsync<T>(generator: () => AsyncIterator<T>): AsyncIterable<T> {
+  return { [Symbol.asyncIterator]: generator };
+}
+
+/** Check for an async iterable without `in`, which throws for a primitive, such as a string. */
+function isAsyncIterable<T>(
+  iterable: AsyncIterable<T> | Iterable<unknown>
+): iterable is AsyncIterable<T> {
+  return (
+    typeof (iterable as AsyncIterable<T>)[Symbol.asyncIterator] === "function"
+  );
+}
+
+/** Get an async iterator over either kind of iterable. `for await` handles both, and awaits each value. */
+async function* iterate<T>(
+  iterable: AsyncIterable<T> | Iterable<T | PromiseLike<T>>
+): AsyncGenerator<T, void, undefined> {
+  for await (const value of iterable) {
+    yield value;
+  }
+}
+
+function checkSize(size: number): void {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(
+      `The chunk size must be a positive integer, not ${size}`
+    );
+  }
+}
+
+namespace Iter {
+  function wrap<T>(iterable: Iterable<T>): Iter<T> {
+    return {
+      [Symbol.iterator]() {
+        return iterable[Symbol.iterator]();
+      },
+      map<U>(fn: (value: T) => U): Iter<U> {
+        return wrap(
+          generate(function* () {
+            for (const value of iterable) {
+              yield fn(value);
+            }
+          })
+        );
+      },
+      filter(predicate: (value: T) => boolean): Iter<T> {
+        return wrap(
+          generate(function* () {
+            for (const value of iterable) {
+              if (predicate(value)) {
+                yield value;
+              }
+            }
+          })
+        );
+      },
+      filterMap<U>(fn: (value: T) => Option<U>): Iter<U> {
+        return wrap(
+          generate(function* () {
+            for (const value of iterable) {
+              const option = fn(value);
+              if (option.isSome) {
+                yield option.value;
+              }
+            }
+          })
+        );
+      },
+      take(count: number): Iter<T> {
+        return wrap(
+          generate(function* () {
+            if (count <= 0) {
+              return;
+            }
+            // Returning as soon as the last value is yielded means that the one after it is never pulled.
+            let taken = 0;
+            for (const value of iterable) {
+              yield value;
+              if (++taken >= count) {
+                return;
+              }
+            }
+          })
+        );
+      },
+      skip(count: number): Iter<T> {
+        return wrap(
+          generate(function* () {
+            let skipped = 0;
+            for (const value of iterable) {
+              if (skipped++ >= count) {
+                yield value;
+              }
+            }
+          })
+        );
+      },
+      zip<U>(other: Iterable<U>): Iter<[T, U]> {
+        return wrap(
+          generate(function* (): Generator<[T, U]> {
+            const iterator = other[Symbol.iterator]();
+            try {
+              for (const value of iterable) {
+                const next = iterator.next();
+                if (next.done) {
+                  return;
+                }
+                yield [value, next.value];
+              }
+            } finally {
+              // Let a generator passed as `other` clean up, if `iterable` runs out first.
+              iterator.return?.();
+            }
+          })
+        );
+      },
+      chunk(size: number): Iter<T[]> {
+        checkSize(size);
+        return wrap(
+          generate(function* () {
+            let chunk: T[] = [];
+            for (const value of iterable) {
+              chunk.push(value);
+              if (chunk.length === size) {
+                yield chunk;
+                chunk = [];
+              }
+            }
+            if (chunk.length > 0) {
+              yield chunk;
+            }
+          })
+        );
+      },
+      flatMap<U>(fn: (value: T) => Flattenable<U>): Iter<U> {
+        return wrap(
+          generate(function* () {
+            for (const value of iterable) {
+              yield* flatten<U, Iterable<U>>(fn(value));
+            }
+          })
+        );
+      },
+      first(): Option<T> {
+        for (const value of iterable) {
+          return Option.some(value);
+        }
+        return Option.none;
+      },
+      last(): Option<T> {
+        let last: Option<T> = Option.none;
+        for (const value of iterable) {
+          last = Option.some(value);
+        }
+        return last;
+      },
+      nth(index: number): Option<T> {
+        if (!Number.isInteger(index) || index < 0) {
+          return Option.none;
+        }
+        return this.skip(index).first();
+      },
+      find(predicate: (value: T) => boolean): Option<T> {
+        return this.filter(predicate).first();
+      },
+      max(ord: Ord<T> = compare): Option<T> {
+        return this.reduce((max, value) =>
+          ord(value, max) >= 0 ? value : max
+        );
+      },
+      min(ord: Ord<T> = compare): Option<T> {
+        return this.reduce((min, value) => (ord(value, min) < 0 ? value : min));
+      },
+      reduce(fn: (accumulator: T, value: T) => T): Option<T> {
+        let accumulator: Option<T> = Option.none;
+        for (const value of iterable) {
+          accumulator = Option.some(
+            accumulator.isSome ? fn(accumulator.value, value) : value
+          );
+        }
+        return accumulator;
+      },
+      tryFold<A, E>(
+        initial: A,
+        fn: (accumulator: A, value: T) => Result<A, E>
+      ): Result<A, E> {
+        let accumulator = initial;
+        for (const value of iterable) {
+          const result = fn(accumulator, value);
+          if (!result.isOk) {
+            return result;
+          }
+          accumulator = result.value;
+        }
+        return Result.ok(accumulator);
+      },
+      tryCollect<U, E>(this: Iter<Result<U, E>>): Result<U[], E> {
+        return this.tryFold([] as U[], (values, result) =>
+          result.map((value) => {
+            values.push(value);
+            return values;
+          })
+        );
+      },
+      collect(): T[] {
+        return [...iterable];
+      },
+      toAsync(): AsyncIter<T> {
+        return AsyncIter.from(iterable);
+      },
+    };
+  }
+
+  /** Wrap an iterable, such as an array, `Map`, `Set`, string or generator, in an `Iter`.
+   * An async iterable is wrapped in an `AsyncIter` instead.
+   */
+  export function from<T>(iterable: Iterable<T>): Iter<T>;
+  export function from<T>(iterable: AsyncIterable<T>): AsyncIter<T>;
+  export function from<T>(
+    iterable: Iterable<T> | AsyncIterable<T>
+  ): Iter<T> | AsyncIter<T> {
+    return isAsyncIterable(iterable)
+      ? AsyncIter.from(iterable)
+      : wrap(iterable);
+  }
+}
+
+namespace AsyncIter {
+  function wrap<T>(iterable: AsyncIterable<T>): AsyncIter<T> {
+    return {
+      [Symbol.asyncIterator]() {
+        return iterable[Symbol.asyncIterator]();
+      },
+      map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncIter<U> {
+        return wrap(
+          generateAsync(async function* () {
+            for await (const value of iterable) {
+              yield await fn(value);
+            }
+          })
+        );
+      },
+      filter(
+        predicate: (value: T) => boolean | PromiseLike<boolean>
+      ): AsyncIter<T> {
+        return wrap(
+          generateAsync(async function* () {
+            for await (const value of iterable) {
+              if (await predicate(value)) {
+                yield value;
+              }
+            }
+          })
+        );
+      },
+      filterMap<U>(
+        fn: (value: T) => Option<U> | PromiseLike<Option<U>>
+      ): AsyncIter<U> {
+        return wrap(
+          generateAsync(async function* () {
+            for await (const value of iterable) {
+              const option = await fn(value);
+              if (option.isSome) {
+                yield option.value;
+              }
+            }
+          })
+        );
+      },
+      take(count: number): AsyncIter<T> {
+        return wrap(
+          generateAsync(async function* () {
+            if (count <= 0) {
+              return;
+            }
+            let taken = 0;
+            for await (const value of iterable) {
+              yield value;
+              if (++taken >= count) {
+                return;
+              }
+            }
+          })
+        );
+      },
+      skip(count: number): AsyncIter<T> {
+        return wrap(
+          generateAsync(async function* () {
+            let skipped = 0;
+            for await (const value of iterable) {
+              if (skipped++ >= count) {
+                yield value;
+              }
+            }
+          })
+        );
+      },
+      zip<U>(other: AsyncIterable<U> | Iterable<U>): AsyncIter<[T, U]> {
+        return wrap(
+          generateAsync(async function* (): AsyncGenerator<[T, U]> {
+            const iterator = iterate(other);
+            try {
+              for await (const value of iterable) {
+                const next = await iterator.next();
+                if (next.done) {
+                  return;
+                }
+                yield [value, next.value];
+              }
+            } finally {
+              await iterator.return();
+            }
+          })
+        );
+      },
+      chunk(size: number): AsyncIter<T[]> {
+        checkSize(size);
+        return wrap(
+          generateAsync(async function* () {
+            let chunk: T[] = [];
+            for await (const value of iterable) {
+              chunk.push(value);
+              if (chunk.length === size) {
+                yield chunk;
+                chunk = [];
+              }
+            }
+            if (chunk.length > 0) {
+              yield chunk;
+            }
+          })
+        );
+      },
+      flatMap<U>(
+        fn: (value: T) => AsyncIterable<U> | Flattenable<U>
+      ): AsyncIter<U> {
+        return wrap(
+          generateAsync(async function* () {
+            for await (const value of iterable) {
+              yield* iterate(
+                flatten<U, AsyncIterable<U> | Iterable<U>>(fn(value))
+              );
+            }
+          })
+        );
+      },
+      async first(): Promise<Option<T>> {
+        for await (const value of iterable) {
+          return Option.some(value);
+        }
+        return Option.none;
+      },
+      async last(): Promise<Option<T>> {
+        let last: Option<T> = Option.none;
+        for await (const value of iterable) {
+          last = Option.some(value);
+        }
+        return last;
+      },
+      nth(index: number): Promise<Option<T>> {
+        if (!Number.isInteger(index) || index < 0) {
+          return Promise.resolve(Option.none);
+        }
+        return this.skip(index).first();
+      },
+      find(
+        predicate: (value: T) => boolean | PromiseLike<boolean>
+      ): Promise<Option<T>> {
+        return this.filter(predicate).first();
+      },
+      max(ord: Ord<T> = compare): Promise<Option<T>> {
+        return this.reduce((max, value) =>
+          ord(value, max) >= 0 ? value : max
+        );
+      },
+      min(ord: Ord<T> = compare): Promise<Option<T>> {
+        return this.reduce((min, value) => (ord(value, min) < 0 ? value : min));
+      },
+      async reduce(
+        fn: (accumulator: T, value: T) => T | PromiseLike<T>
+      ): Promise<Option<T>> {
+        let accumulator: Option<T> = Option.none;
+        for await (const value of iterable) {
+          accumulator = Option.some(
+            accumulator.isSome ? await fn(accumulator.value, value) : value
+          );
+        }
+        return accumulator;
+      },
+      tryFold<A, E>(
+        initial: A,
+        fn: (
+          accumulator: A,
+          value: T
+        ) => Result<A, E> | PromiseLike<Result<A, E>>
+      ): AsyncResult<A, E> {
+        return AsyncResult.fromResult(
+          (async () => {
+            let accumulator = initial;
+            for await (const value of iterable) {
+              const result = await fn(accumulator, value);
+              if (!result.isOk) {
+                return result;
+              }
+              accumulator = result.value;
+            }
+            return Result.ok(accumulator);
+          })()
+        );
+      },
+      tryCollect<U, E>(this: AsyncIter<Result<U, E>>): AsyncResult<U[], E> {
+        return this.tryFold([] as U[], (values, result) =>
+          result.map((value) => {
+            values.push(value);
+            return values;
+          })
+        );
+      },
+      async collect(): Promise<T[]> {
+        const values: T[] = [];
+        for await (const value of iterable) {
+          values.push(value);
+        }
+        return values;
+      },
+    };
+  }
+
+  /** Wrap an async iterable in an `AsyncIter`. A sync iterable works too, and any promises in it are awaited. */
+  export function from<T>(
+    iterable: AsyncIterable<T> | Iterable<T | PromiseLike<T>>
+  ): AsyncIter<T> {
+    return wrap(
+      isAsyncIterable<T>(iterable)
+        ? iterable
+        : generateAsync(() => iterate(iterable))
+    );
+  }
+}
+
+export { Iter, AsyncIter };
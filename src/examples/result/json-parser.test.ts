@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { json, parseJson } from "./json-parser";
+
+describe("json-parser", () => {
+  it("should parse the same values as JSON.parse", () => {
+    const texts = [
+      "null",
+      "true",
+      "false",
+      "0",
+      "-1.5e3",
+      '"a\\"b\\u00e9\\n"',
+      "[]",
+      "{}",
+      ' { "a" : [ 1 , { "b" : null } ] , "c" : "d" } ',
+      '{"__proto__": 1}',
+    ];
+
+    for (const text of texts) {
+      expect(parseJson(text).unwrap()).toEqual(JSON.parse(text));
+    }
+  });
+
+  it("should report where invalid JSON went wrong", () => {
+    const result = parseJson('{"a": [1 2]}');
+
+    !result.isOk &&
+      expect(result.error.message).toBe(
+        'Expected "," or "]" at line 1, column 10, found "2"'
+      );
+    expect(result.isOk).toBe(false);
+  });
+
+  it("should describe a missing value as a value", () => {
+    const result = parseJson('{\n  "a": \n}');
+
+    !result.isOk &&
+      expect(result.error.message).toBe(
+        'Expected value at line 3, column 1, found "}"'
+      );
+  });
+
+  it("should reject things that JSON.parse rejects", () => {
+    for (const text of ["", "01", "'a'", '"\u0001"', "[1,]", "{a: 1}", "1 2"]) {
+      expect(parseJson(text).isOk).toBe(false);
+    }
+  });
+
+  it("should recover from bad items, to report all of them", () => {
+    const { value, errors } = json.parseRecovering(
+      '{"a": [1, x, 3, ], "b": tru, c: 1}'
+    );
+
+    expect(value.unwrap()).toEqual({ a: [1, null, 3, null] });
+    expect(errors.map((error) => `${error.column}: ${error.expected}`)).toEqual(
+      ["11: value", "17: value", "25: value", "30: string"]
+    );
+  });
+
+  it("should skip a bad item as a whole, with the brackets and strings in it", () => {
+    const { value, errors } = json.parseRecovering(
+      '[[1 2], {"a": "]"}, 3, {"b": [1 "x,]"], "c": 2}]'
+    );
+
+    expect(value.unwrap()).toEqual([null, { a: "]" }, 3, { c: 2 }]);
+    expect(errors.map((error) => error.column)).toEqual([5, 33]);
+  });
+
+  it("should give an error for text that is nested too deeply", () => {
+    const result = parseJson("[".repeat(10000) + "]".repeat(10000));
+
+    !result.isOk &&
+      expect(result.error.message).toMatch(/^Nested too deeply to parse at /);
+    expect(result.isOk).toBe(false);
+  });
+});
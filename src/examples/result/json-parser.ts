@@ -0,0 +1,128 @@
+/**
+ * A complete JSON parser, built from the combinators in `parser.ts`, as an example of a real grammar.
+ *
+ * `JSON.parse` already exists, but its errors are hard to act on: a `SyntaxError` with a message that differs between
+ * engines, and only ever the first mistake. This parser gives a `ParseError` with the line, column and what was
+ * expected, and `parseRecovering` carries on past a bad item in an array or object, to report every one of them.
+ *
+ * E.g.
+ * ```ts
+ * parseJson('{"a": [1, 2]}'); // Ok({ a: [1, 2] })
+ * parseJson('{"a": [1 2]}'); // Err(Expected "," or "]" at line 1, column 10, found "2")
+ *
+ * json.parseRecovering("[1, x, 3, ]");
+ * // { value: Some([1, null, 3, null]), errors: [Expected value at ... column 5, Expected value at ... column 11] }
+ * ```
+ *
+ * The parser is recursive, so each level of nesting uses some of the stack. Text nested deeper than the stack allows,
+ * several hundred levels with Node's default stack size, gives a "Nested too deeply" error instead of a value.
+ */
+
+import { ParseError, Parser } from "./parser";
+import { Result } from "./result";
+
+type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+const whitespace = Parser.regex(/[ \t\n\r]*/);
+
+/** A parser followed by any whitespace, so that the next parser starts at the next token. */
+function token<T>(p: Parser<T>): Parser<T> {
+  return Parser.seq(p, whitespace).map(([value]) => value);
+}
+
+function punctuation(c: string): Parser<string> {
+  return token(Parser.char(c));
+}
+
+// A JSON string is also valid JavaScript, so once the regex has checked it, `JSON.parse` can decode the escapes.
+const string = token(
+  Parser.regex(
+    /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/,
+    "string"
+  ).map((text): string => JSON.parse(text))
+);
+
+const number = token(
+  Parser.regex(/-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/, "number").map(
+    Number
+  )
+);
+
+const keyword = <T>(text: string, value: T) =>
+  token(Parser.string(text)).map(() => value);
+
+// `value` refers to `array` and `object`, which contain values in turn, so it is created lazily.
+const value: Parser<JsonValue> = Parser.lazy(() =>
+  Parser.alt(
+    object,
+    array,
+    string,
+    number,
+    keyword("true", true),
+    keyword("false", false),
+    keyword("null", null)
+  )
+).label("value");
+
+// A string, or a bracketed group with everything in it, which recovery skips as a whole, so that a `,` or closing
+// bracket inside a bad item isn't taken for the end of it. Anything that isn't balanced is skipped a character at a time.
+const balanced: Parser<unknown> = Parser.lazy(() => {
+  const inside = Parser.many(Parser.alt(balanced, Parser.regex(/[^"[\]{}]+/)));
+  return Parser.alt(
+    Parser.regex(/"(?:[^"\\]|\\.)*"/),
+    Parser.seq(Parser.char("["), inside, Parser.char("]")),
+    Parser.seq(Parser.char("{"), inside, Parser.char("}"))
+  );
+});
+
+// A bad item is replaced by `null`, and skipped up to the next `,` or closing bracket, so the items after it are still checked.
+const item = Parser.recover(value, {
+  until: Parser.regex(/[,\]]/),
+  skip: balanced,
+  fallback: () => null,
+});
+
+const array = Parser.seq(
+  punctuation("["),
+  Parser.alt(
+    punctuation("]").map((): JsonValue[] => []),
+    Parser.seq(Parser.sepBy(item, punctuation(",")), punctuation("]")).map(
+      ([items]) => items
+    )
+  )
+).map(([, items]) => items);
+
+const member = Parser.recover(
+  Parser.seq(string, punctuation(":"), value).map(
+    ([key, , value]): [string, JsonValue] => [key, value]
+  ),
+  { until: Parser.regex(/[,}]/), skip: balanced, fallback: () => undefined }
+);
+
+const object = Parser.seq(
+  punctuation("{"),
+  Parser.alt(
+    punctuation("}").map((): Record<string, JsonValue> => ({})),
+    Parser.seq(Parser.sepBy(member, punctuation(",")), punctuation("}")).map(
+      ([members]) =>
+        Object.fromEntries(members.filter((member) => member !== undefined))
+    )
+  )
+).map(([, object]) => object);
+
+/** A parser for a JSON document, with any whitespace around it. */
+const json: Parser<JsonValue> = Parser.seq(whitespace, value).map(
+  ([, value]) => value
+);
+
+function parseJson(text: string): Result<JsonValue, ParseError> {
+  return json.parse(text);
+}
+
+export { json, parseJson, JsonValue };
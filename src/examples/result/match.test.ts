@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { match } from "./match";
+import { Result } from "./result";
+
+describe("match", () => {
+  type ApiError =
+    | { kind: "NotFound"; id: string }
+    | { kind: "Timeout"; afterMs: number };
+
+  // Example function that returns a Result with a discriminated union error, for use in the following tests
+  function fetchUser(id: string): Result<{ name: string }, ApiError> {
+    if (id === "slow") {
+      return Result.err({ kind: "Timeout", afterMs: 500 });
+    }
+    if (id !== "1") {
+      return Result.err({ kind: "NotFound", id });
+    }
+    return Result.ok({ name: "Ferris" });
+  }
+
+  const describeUser = (id: string) =>
+    fetchUser(id).match({
+      ok: (user) => `Hello ${user.name}`,
+      err: (error) =>
+        match(error, "kind", {
+          NotFound: ({ id }) => `No user with ID ${id}`,
+          Timeout: ({ afterMs }) => `Gave up after ${afterMs}ms`,
+        }),
+    });
+
+  it("should call the handler for the discriminant", () => {
+    expect(describeUser("2")).toBe("No user with ID 2");
+    expect(describeUser("slow")).toBe("Gave up after 500ms");
+  });
+
+  it("should be usable alongside the Result match method", () => {
+    expect(describeUser("1")).toBe("Hello Ferris");
+  });
+
+  it("should return the union of the handler return types", () => {
+    const error = { kind: "Timeout", afterMs: 100 } as ApiError;
+    const result = match(error, "kind", {
+      NotFound: () => "not found",
+      Timeout: ({ afterMs }) => afterMs,
+    });
+
+    const typed: string | number = result;
+    expect(typed).toBe(100);
+  });
+
+  it("should fail to compile when a case is not handled", () => {
+    const error = { kind: "NotFound", id: "1" } as ApiError;
+    // @ts-expect-error - the Timeout case is missing
+    const result = match(error, "kind", { NotFound: ({ id }) => id });
+    expect(result).toBe("1");
+  });
+
+  it("should throw for a discriminant with no handler at runtime", () => {
+    // E.g. from untrusted JSON that doesn't match the types
+    const error = JSON.parse('{ "kind": "Unknown" }') as ApiError;
+    expect(() =>
+      match(error, "kind", { NotFound: () => 1, Timeout: () => 2 })
+    ).toThrow("No match case for Unknown");
+  });
+
+  it("should not find a handler on the prototype of the cases", () => {
+    const error = JSON.parse('{ "kind": "toString" }') as ApiError;
+    expect(() =>
+      match(error, "kind", { NotFound: () => 1, Timeout: () => 2 })
+    ).toThrow("No match case for toString");
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Exhaustive pattern matching over discriminated unions.
+ *
+ * `Result` and `Option` have their own `match` methods, but the error inside an `Err` is often a discriminated union too.
+ * For example:
+ * ```ts
+ * type ApiError =
+ *   | { kind: "NotFound"; id: string }
+ *   | { kind: "Timeout"; afterMs: number };
+ * ```
+ *
+ * The `match` function here lets us handle each member of a union like this, with the type checker making sure
+ * that every case is handled. Adding a new member to `ApiError` will cause a compile error at every `match`
+ * that doesn't handle it yet.
+ */
+
+/** A handler for every possible value of the discriminant `K` of the union `U`.
+ *
+ * Each handler receives the member of the union with that discriminant, thanks to `Extract`.
+ * E.g. for `ApiError` above, the `NotFound` handler receives `{ kind: "NotFound"; id: string }`.
+ */
+type MatchCases<U extends Record<K, PropertyKey>, K extends PropertyKey> = {
+  [V in U[K]]: (value: Extract<U, Record<K, V>>) => unknown;
+};
+
+/** Call the handler in `cases` for the discriminant `value[key]`, and return what it returns.
+ *
+ * E.g.
+ * ```ts
+ * const message = result.match({
+ *   ok: (user) => `Hello ${user.name}`,
+ *   err: (error) =>
+ *     match(error, "kind", {
+ *       NotFound: ({ id }) => `No user with ID ${id}`,
+ *       Timeout: ({ afterMs }) => `Gave up after ${afterMs}ms`,
+ *     }),
+ * });
+ * ```
+ *
+ * The return type is the union of the return types of every handler.
+ */
+function match<
+  U extends Record<K, PropertyKey>,
+  K extends PropertyKey,
+  C extends MatchCases<U, K>
+>(value: U, key: K, cases: C): ReturnType<C[U[K]]> {
+  // Inside the function the type checker can't relate `value` to the handler for its own discriminant,
+  // so we widen the handler to accept the whole union.
+  // Only the object's own handlers count, so a tag such as `toString` doesn't find one on `Object.prototype`.
+  const tag = value[key];
+  const handler = (Object.hasOwn(cases, tag) ? cases[tag] : undefined) as
+    | ((value: U) => unknown)
+    | undefined;
+  // The type checker guarantees that there is a handler, but values from outside of it (such as parsed JSON) may not agree.
+  if (typeof handler !== "function") {
+    throw new TypeError(`No match case for ${String(value[key])}`);
+  }
+  return handler(value) as ReturnType<C[U[K]]>;
+}
+
+export { match, MatchCases };
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { resultMatchers } from "./matchers";
+import { Option } from "./option";
+import { Result } from "./result";
+
+expect.extend(resultMatchers);
+
+describe("matchers", () => {
+  // Run an assertion that should fail, and return the failure message
+  const failureOf = (assertion: () => void): string => {
+    try {
+      assertion();
+    } catch (error) {
+      return (error as Error).message;
+    }
+    throw new Error("Expected the assertion to fail");
+  };
+
+  describe("toBeOk", () => {
+    it("should pass for an Ok", () => {
+      expect(Result.ok(5)).toBeOk();
+      expect(Result.err("boom")).not.toBeOk();
+    });
+
+    it("should print the received variant on failure", () => {
+      expect(failureOf(() => expect(Result.err("boom")).toBeOk())).toBe(
+        `expected Err("boom") to be Ok(...)`
+      );
+    });
+
+    it("should fail for a value that isn't a Result", () => {
+      expect(5).not.toBeOk();
+      expect({ isOk: true }).not.toBeOk();
+      expect({ _tag: Symbol("Ok") }).not.toBeOk();
+      expect(failureOf(() => expect(null).toBeOk())).toBe(
+        "expected null to be Ok(...)"
+      );
+    });
+  });
+
+  describe("toBeOkWith", () => {
+    it("should pass for an Ok with an equal value", () => {
+      expect(Result.ok({ a: [1] })).toBeOkWith({ a: [1] });
+      expect(Result.ok(5)).not.toBeOkWith(6);
+      expect(Result.err(5)).not.toBeOkWith(5);
+    });
+
+    it("should accept asymmetric matchers", () => {
+      expect(Result.ok({ id: 1, name: "Ferris" })).toBeOkWith(
+        expect.objectContaining({ name: "Ferris" })
+      );
+    });
+
+    it("should print both variants on failure", () => {
+      expect(failureOf(() => expect(Result.ok(5)).toBeOkWith(6))).toBe(
+        "expected Ok(5) to be Ok(6)"
+      );
+      expect(failureOf(() => expect(Result.ok(5)).not.toBeOkWith(5))).toBe(
+        "expected Ok(5) not to be Ok(5)"
+      );
+    });
+  });
+
+  describe("toBeErr and toBeErrWith", () => {
+    it("should pass for an Err", () => {
+      expect(Result.err("boom")).toBeErr();
+      expect(Result.ok(5)).not.toBeErr();
+    });
+
+    it("should pass for an Err with an equal error", () => {
+      expect(Result.err("boom")).toBeErrWith("boom");
+      expect(Result.err("boom")).toBeErrWith(expect.stringContaining("oo"));
+      expect(Result.ok("boom")).not.toBeErrWith("boom");
+    });
+
+    it("should print both variants on failure", () => {
+      expect(failureOf(() => expect(Result.ok(5)).toBeErrWith("boom"))).toBe(
+        `expected Ok(5) to be Err("boom")`
+      );
+    });
+  });
+
+  describe("toBeSome and toBeNone", () => {
+    it("should pass for any Some when no value is given", () => {
+      expect(Option.some(1)).toBeSome();
+      expect(Option.none).not.toBeSome();
+    });
+
+    it("should pass for a Some with an equal value", () => {
+      expect(Option.some([1, 2])).toBeSome([1, 2]);
+      expect(Option.some(1)).not.toBeSome(2);
+    });
+
+    it("should pass for None", () => {
+      expect(Option.none).toBeNone();
+      expect(Option.some(1)).not.toBeNone();
+      expect(Result.ok(1)).not.toBeNone();
+    });
+
+    it("should print both variants on failure", () => {
+      expect(failureOf(() => expect(Option.none).toBeSome(1))).toBe(
+        "expected None to be Some(1)"
+      );
+      expect(failureOf(() => expect(Option.some(1)).toBeNone())).toBe(
+        "expected Some(1) to be None"
+      );
+    });
+  });
+
+  describe("asymmetric matchers", () => {
+    it("should match nested Results and Options", () => {
+      const response = {
+        user: Result.ok({ name: "Ferris" }),
+        org: Result.err("NotFound"),
+        nickname: Option.some("crab"),
+      };
+
+      expect(response).toEqual({
+        user: expect.okWith({ name: "Ferris" }),
+        org: expect.errWith("NotFound"),
+        nickname: expect.someWith(expect.any(String)),
+      });
+      expect(response).not.toEqual(
+        expect.objectContaining({ user: expect.errWith("NotFound") })
+      );
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Custom Vitest matchers for Results and Options.
+ *
+ * Without these, checking the contents of a Result in a test takes a few steps:
+ * ```ts
+ * expect(result.isOk).toBe(false);
+ * !result.isOk && expect(result.error).toBe("boom");
+ * ```
+ *
+ * With them, it's a single assertion, and a failure prints what the Result actually was, E.g. `Ok(5)` vs `Err("boom")`:
+ * ```ts
+ * expect.extend(resultMatchers);
+ *
+ * expect(result).toBeErrWith("boom");
+ * expect({ user: result }).toEqual({ user: expect.okWith({ name: "Ferris" }) });
+ * ```
+ *
+ * Matching payloads uses the same deep equality as `toEqual`, so other asymmetric matchers such as
+ * `expect.any(Number)` work inside them too.
+ */
+
+import type { ExpectStatic } from "vitest";
+
+/** The matchers available on `expect(...)`. The `R` type parameter is what a matcher returns. */
+interface ResultMatchers<R = unknown> {
+  toBeOk(): R;
+  toBeOkWith(value: unknown): R;
+  toBeErr(): R;
+  toBeErrWith(error: unknown): R;
+  /** If no value is given, passes for any `Some`. */
+  toBeSome(...value: [] | [unknown]): R;
+  toBeNone(): R;
+}
+
+/** The asymmetric matchers available on `expect` itself, for use inside other matchers such as `toEqual`. */
+interface ResultAsymmetricMatchers {
+  okWith(value: unknown): any;
+  errWith(error: unknown): any;
+  someWith(value: unknown): any;
+}
+
+// Declaration merging adds our matchers to Vitest's own interfaces, so that they are type checked.
+declare module "vitest" {
+  interface Assertion<T = any> extends ResultMatchers<T> {}
+  interface AsymmetricMatchersContaining extends ResultAsymmetricMatchers {}
+}
+
+type Variant = "Ok" | "Err" | "Some" | "None";
+
+/** The type of `this` inside a matcher. Vitest doesn't export it directly, so we get it from the type of `expect.extend`. */
+type MatcherState = ThisParameterType<
+  Parameters<ExpectStatic["extend"]>[0][string]
+>;
+
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+  actual?: unknown;
+  expected?: unknown;
+}
+
+/** Work out which variant a value is, if any. This works on a plain `unknown`, since anything could be passed to `expect`. */
+function variantOf(received: unknown): Variant | undefined {
+  if (
+    typeof received !== "object" ||
+    received === null ||
+    typeof (received as { _tag?: unknown })._tag !== "symbol"
+  ) {
+    return undefined;
+  }
+  if ("isOk" in received) {
+    return received.isOk ? "Ok" : "Err";
+  }
+  if ("isSome" in received) {
+    return received.isSome ? "Some" : "None";
+  }
+  return undefined;
+}
+
+/** Check that `received` is the `expected` variant, and if an expected payload is given, that the payload is equal. */
+function matchVariant(
+  state: MatcherState,
+  received: unknown,
+  expected: Variant,
+  ...payload: [] | [unknown]
+): MatcherResult {
+  const { equals, isNot, utils } = state;
+  const actual = variantOf(received);
+  const receivedPayload =
+    actual === "Err"
+      ? (received as { error: unknown }).error
+      : (received as { value?: unknown } | null)?.value;
+
+  const pass =
+    actual === expected &&
+    (payload.length === 0 || equals(receivedPayload, payload[0]));
+
+  const printedReceived =
+    actual === undefined
+      ? utils.stringify(received)
+      : actual === "None"
+      ? "None"
+      : `${actual}(${utils.stringify(receivedPayload)})`;
+  const printedExpected =
+    payload.length === 0
+      ? expected === "None"
+        ? "None"
+        : `${expected}(...)`
+      : `${expected}(${utils.stringify(payload[0])})`;
+
+  return {
+    pass,
+    message: () =>
+      `expected ${printedReceived} ${
+        isNot ? "not " : ""
+      }to be ${printedExpected}`,
+    // Giving Vitest the printed variants means that it shows them as a diff on failure.
+    actual: printedReceived,
+    expected: printedExpected,
+  };
+}
+
+/** The matchers to pass to `expect.extend`. */
+const resultMatchers = {
+  toBeOk(this: MatcherState, received: unknown) {
+    return matchVariant(this, received, "Ok");
+  },
+  toBeOkWith(this: MatcherState, received: unknown, value: unknown) {
+    return matchVariant(this, received, "Ok", value);
+  },
+  toBeErr(this: MatcherState, received: unknown) {
+    return matchVariant(this, received, "Err");
+  },
+  toBeErrWith(this: MatcherState, received: unknown, error: unknown) {
+    return matchVariant(this, received, "Err", error);
+  },
+  toBeSome(this: MatcherState, received: unknown, ...value: unknown[]) {
+    return matchVariant(
+      this,
+      received,
+      "Some",
+      ...(value.slice(0, 1) as [] | [unknown])
+    );
+  },
+  toBeNone(this: MatcherState, received: unknown) {
+    return matchVariant(this, received, "None");
+  },
+  // Vitest makes every matcher available as an asymmetric matcher on `expect`, so these give us `expect.okWith(...)` etc.
+  okWith(this: MatcherState, received: unknown, value: unknown) {
+    return matchVariant(this, received, "Ok", value);
+  },
+  errWith(this: MatcherState, received: unknown, error: unknown) {
+    return matchVariant(this, received, "Err", error);
+  },
+  someWith(this: MatcherState, received: unknown, value: unknown) {
+    return matchVariant(this, received, "Some", value);
+  },
+};
+
+export { resultMatchers, ResultMatchers, ResultAsymmetricMatchers };
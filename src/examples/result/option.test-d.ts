@@ -0,0 +1,118 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { None, Option, Some } from "./option";
+import { Err, Ok, Result } from "./result";
+
+// These tests are only type checked, and never run. See `result.test-d.ts`.
+
+declare const some: Some<number>;
+declare const none: None;
+declare const option: Option<number>;
+declare const other: Option<string>;
+
+describe("Option types", () => {
+  it("should unwrap to the value type", () => {
+    expectTypeOf(some.unwrap()).toEqualTypeOf<number>();
+    expectTypeOf(none.unwrap()).toEqualTypeOf<never>();
+    expectTypeOf(option.unwrap()).toEqualTypeOf<number>();
+    expectTypeOf(option.expect("")).toEqualTypeOf<number>();
+  });
+
+  it("should include the default when unwrapping", () => {
+    expectTypeOf(option.unwrapOr(null)).toEqualTypeOf<number | null>();
+    expectTypeOf(option.unwrapOrElse(() => "")).toEqualTypeOf<
+      number | string
+    >();
+    expectTypeOf(option.mapOr(null, String)).toEqualTypeOf<string | null>();
+  });
+
+  it("should keep the variant when mapping", () => {
+    expectTypeOf(some.map(String)).toEqualTypeOf<Some<string>>();
+    expectTypeOf(none.map(String)).toEqualTypeOf<None>();
+    expectTypeOf(none.andThen(() => other)).toEqualTypeOf<None>();
+    expectTypeOf(option.map(String)).toEqualTypeOf<Option<string>>();
+    expectTypeOf(option.andThen(() => other)).toEqualTypeOf<Option<string>>();
+  });
+
+  it("should narrow with a type guard filter", () => {
+    const mixed = {} as Option<number | string>;
+    expectTypeOf(
+      mixed.filter((value): value is string => typeof value === "string")
+    ).toEqualTypeOf<Option<string>>();
+    expectTypeOf(option.filter((value) => value > 0)).toEqualTypeOf<
+      Option<number>
+    >();
+  });
+
+  it("should combine Options", () => {
+    expectTypeOf(option.and(other)).toEqualTypeOf<Option<string>>();
+    expectTypeOf(some.or(other)).toEqualTypeOf<Some<number>>();
+    expectTypeOf(option.or(other).unwrap()).toEqualTypeOf<number | string>();
+    expectTypeOf(option.xor(other).unwrap()).toEqualTypeOf<number | string>();
+    expectTypeOf(option.zip(other)).toEqualTypeOf<Option<[number, string]>>();
+  });
+
+  it("should only flatten and unzip the right Options", () => {
+    const nested = {} as Option<Option<number>>;
+    const pair = {} as Option<[number, string]>;
+    expectTypeOf(nested.flatten()).toEqualTypeOf<Option<number>>();
+    expectTypeOf(pair.unzip()).toEqualTypeOf<
+      [Option<number>, Option<string>]
+    >();
+    // @ts-expect-error - the value isn't an Option
+    option.flatten();
+    // @ts-expect-error - the value isn't a pair
+    option.unzip();
+  });
+
+  it("should convert to a Result", () => {
+    expectTypeOf(some.toResult("")).toEqualTypeOf<Ok<number>>();
+    expectTypeOf(none.toResult("")).toEqualTypeOf<Err<string>>();
+    expectTypeOf(option.toResult("")).toEqualTypeOf<Result<number, string>>();
+    expectTypeOf(option.okOr("")).toEqualTypeOf<Result<number, string>>();
+    expectTypeOf(option.okOrElse(() => "")).toEqualTypeOf<
+      Result<number, string>
+    >();
+  });
+
+  it("should transpose an Option of a Result", () => {
+    const transposable = {} as Option<Result<number, string>>;
+    const transposed = transposable.transpose();
+    expectTypeOf(transposed.unwrap()).toEqualTypeOf<Option<number>>();
+    if (!transposed.isOk) {
+      expectTypeOf(transposed.error).toEqualTypeOf<string>();
+    }
+  });
+
+  it("should convert to a nullable value", () => {
+    expectTypeOf(option.toNullable()).toEqualTypeOf<number | null>();
+    expectTypeOf(option.toUndefined()).toEqualTypeOf<number | undefined>();
+  });
+
+  it("should pass the right types to callbacks", () => {
+    option.map((value) => expectTypeOf(value).toEqualTypeOf<number>());
+    option.inspect((value) => expectTypeOf(value).toEqualTypeOf<number>());
+    option.tap((o) => expectTypeOf(o).toEqualTypeOf<Option<number>>());
+  });
+
+  it("should combine the types of match", () => {
+    expectTypeOf(
+      option.match({ some: (value) => value > 0, none: () => "none" })
+    ).toEqualTypeOf<boolean | string>();
+  });
+
+  it("should narrow with isSome", () => {
+    if (option.isSome) {
+      expectTypeOf(option).toEqualTypeOf<Some<number>>();
+    } else {
+      expectTypeOf(option).toEqualTypeOf<None>();
+    }
+  });
+
+  it("should infer the types of the factories", () => {
+    expectTypeOf(Option.some(1)).toEqualTypeOf<Some<number>>();
+    expectTypeOf(Option.none).toEqualTypeOf<None>();
+    expectTypeOf(Option.fromNullable({} as string | null)).toEqualTypeOf<
+      Option<string>
+    >();
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { Option } from "./option";
-import { Result } from "./result";
+import { None, Option, Some } from "./option";
+import { Err, Ok, Result } from "./result";
+import { Codec } from "./codec";
+import { UnwrapError } from "./errors";
 
 describe("Option", () => {
   it("should unwrap some value", () => {
@@ -150,6 +152,228 @@ describe("Option", () => {
     });
   });
 
+  describe("std::option methods", () => {
+    // `as` stops the type being narrowed to `Some` or `None`, so that the methods are called on an `Option`.
+    const some = Option.some(5) as Option<number>;
+    const none = Option.none as Option<number>;
+
+    it("should unwrap with a lazy default", () => {
+      expect(some.unwrapOrElse(() => 10)).toBe(5);
+      expect(none.unwrapOrElse(() => 10)).toBe(10);
+    });
+
+    it("should map with a default", () => {
+      expect(some.mapOr("none", String)).toBe("5");
+      expect(none.mapOr("none", String)).toBe("none");
+      expect(some.mapOrElse(() => "none", String)).toBe("5");
+      expect(none.mapOrElse(() => "none", String)).toBe("none");
+    });
+
+    it("should filter the value", () => {
+      expect(some.filter((x) => x > 1).unwrap()).toBe(5);
+      expect(some.filter((x) => x > 10).isSome).toBe(false);
+      expect(none.filter(() => true).isSome).toBe(false);
+    });
+
+    it("should narrow the type with a type guard filter", () => {
+      const option: Option<string | number> = Option.some(5);
+      const numbers: Option<number> = option.filter(
+        (x): x is number => typeof x === "number"
+      );
+      expect(numbers.unwrap()).toBe(5);
+    });
+
+    it("should combine Options with and, or and xor", () => {
+      const other: Option<string> = Option.some("a");
+
+      expect(some.and(other).unwrap()).toBe("a");
+      expect(none.and(other).isSome).toBe(false);
+
+      expect(some.or(other).unwrap()).toBe(5);
+      expect(none.or(other).unwrap()).toBe("a");
+      expect(some.orElse(() => other).unwrap()).toBe(5);
+      expect(none.orElse(() => other).unwrap()).toBe("a");
+
+      expect(some.xor(other).isSome).toBe(false);
+      expect(some.xor(Option.none).unwrap()).toBe(5);
+      expect(none.xor(other).unwrap()).toBe("a");
+    });
+
+    it("should zip and unzip", () => {
+      const zipped: Option<[number, string]> = some.zip(Option.some("a"));
+      expect(zipped.unwrap()).toEqual([5, "a"]);
+      expect(some.zip(Option.none).isSome).toBe(false);
+      expect(none.zip(Option.some("a")).isSome).toBe(false);
+
+      expect(some.zipWith(Option.some(2), (a, b) => a * b).unwrap()).toBe(10);
+      expect(none.zipWith(Option.some(2), (a, b) => a * b).isSome).toBe(false);
+
+      const [a, b] = zipped.unzip();
+      expect(a.unwrap()).toBe(5);
+      expect(b.unwrap()).toBe("a");
+
+      const noPair: Option<[number, string]> = Option.none;
+      const [c, d] = noPair.unzip();
+      expect(c.isSome || d.isSome).toBe(false);
+    });
+
+    it("should only unzip an Option of a pair", () => {
+      // @ts-expect-error
+      expect(() => some.unzip()).toThrow(TypeError);
+    });
+
+    it("should flatten a nested Option", () => {
+      const nested: Option<Option<number>> = Option.some(Option.some(5));
+      const flat: Option<number> = nested.flatten();
+      expect(flat.unwrap()).toBe(5);
+      expect(Option.some(Option.none).flatten().isSome).toBe(false);
+      expect(Option.none.flatten().isSome).toBe(false);
+
+      // @ts-expect-error
+      some.flatten();
+    });
+
+    it("should convert to a Result with okOr", () => {
+      expect(some.okOr("missing").unwrap()).toBe(5);
+      expect(none.okOr("missing").isOk).toBe(false);
+      expect(some.okOrElse(() => "missing").unwrap()).toBe(5);
+
+      const result = none.okOrElse(() => "missing");
+      !result.isOk && expect(result.error).toBe("missing");
+    });
+
+    it("should transpose an Option of a Result", () => {
+      const okValue: Option<Result<number, string>> = Option.some(Result.ok(5));
+      const transposed: Result<Option<number>, string> = okValue.transpose();
+      expect(transposed.unwrap().unwrap()).toBe(5);
+
+      const errValue: Option<Result<number, string>> = Option.some(
+        Result.err("boom")
+      );
+      expect(errValue.transpose().isOk).toBe(false);
+
+      const noValue: Option<Result<number, string>> = Option.none;
+      expect(noValue.transpose().unwrap().isSome).toBe(false);
+
+      // @ts-expect-error
+      expect(() => some.transpose()).toThrow(TypeError);
+    });
+
+    it("should keep the variant in the return type", () => {
+      const ok: Ok<number> = Option.some(5).okOr("missing");
+      const err: Err<string> = Option.none.okOr("missing");
+      const stillSome: Some<number> = Option.some(5).or(Option.none);
+      expect(ok.isOk && !err.isOk && stillSome.isSome).toBe(true);
+    });
+
+    it("should convert to a nullable value", () => {
+      const nullable: number | null = some.toNullable();
+      const optional: number | undefined = none.toUndefined();
+      expect(nullable).toBe(5);
+      expect(optional).toBe(undefined);
+      expect(none.toNullable()).toBe(null);
+      expect(some.toUndefined()).toBe(5);
+    });
+  });
+
+  describe("fromNullable", () => {
+    it("should convert null and undefined to None", () => {
+      expect(Option.fromNullable(null).isSome).toBe(false);
+      expect(Option.fromNullable(undefined).isSome).toBe(false);
+    });
+
+    it("should wrap any other value, including falsy ones", () => {
+      const value: string | null = "";
+      const option: Option<string> = Option.fromNullable(value);
+      expect(option.unwrap()).toBe("");
+      expect(Option.fromNullable(0).unwrap()).toBe(0);
+    });
+  });
+
+  describe("fromPredicate", () => {
+    it("should wrap a value that passes the predicate", () => {
+      expect(Option.fromPredicate(5, (x) => x > 1).unwrap()).toBe(5);
+      expect(Option.fromPredicate(5, (x) => x > 10).isSome).toBe(false);
+    });
+
+    it("should narrow the type with a type guard", () => {
+      const value: unknown = "a";
+      const option: Option<string> = Option.fromPredicate(
+        value,
+        (x): x is string => typeof x === "string"
+      );
+      expect(option.unwrap()).toBe("a");
+    });
+  });
+
+  describe("getOrInsert", () => {
+    it("should insert a value into None", () => {
+      const holder: { cache: Option<number> } = { cache: Option.none };
+      expect(Option.getOrInsert(holder, "cache", 5)).toBe(5);
+      expect(holder.cache.unwrap()).toBe(5);
+    });
+
+    it("should return the existing value", () => {
+      const holder = { cache: Option.some(1) as Option<number> };
+      expect(Option.getOrInsert(holder, "cache", 5)).toBe(1);
+    });
+
+    it("should only call getOrInsertWith's function when needed", () => {
+      const holder: { cache: Option<number> } = { cache: Option.none };
+      let calls = 0;
+      const load = () => ++calls;
+      Option.getOrInsertWith(holder, "cache", load);
+      Option.getOrInsertWith(holder, "cache", load);
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe("take and replace", () => {
+    it("should take the value, leaving None", () => {
+      const holder = { value: Option.some(1) as Option<number> };
+      expect(Option.take(holder, "value").unwrap()).toBe(1);
+      expect(holder.value.isSome).toBe(false);
+    });
+
+    it("should replace the value, returning the old one", () => {
+      const holder = { value: Option.some(1) as Option<number> };
+      expect(Option.replace(holder, "value", Option.some(2)).unwrap()).toBe(1);
+      expect(holder.value.unwrap()).toBe(2);
+    });
+  });
+
+  describe("classes", () => {
+    it("should support instanceof", () => {
+      expect(Option.some(1)).toBeInstanceOf(Some);
+      expect(Option.none).toBeInstanceOf(None);
+      expect(Option.some(1)).not.toBeInstanceOf(None);
+    });
+
+    it("should share methods between instances", () => {
+      expect(Option.some(1).map).toBe(Option.some(2).map);
+      expect(Object.keys(Option.some(1))).toEqual(["value"]);
+    });
+
+    it("should recognise plain object variants with the same tag", () => {
+      // Options built by the previous object literal implementation still have the same tags.
+      const some = { _tag: Option.some(0)._tag, isSome: true, value: 1 };
+      const none = { _tag: Option.none._tag, isSome: false };
+
+      expect(Option.isSome(some as Option<number>)).toBe(true);
+      expect(Option.isNone(none as Option<number>)).toBe(true);
+      expect(Option.isSome(none as Option<number>)).toBe(false);
+    });
+  });
+
+  describe("is", () => {
+    it("should recognise Options in unknown values", () => {
+      expect(Option.is(Option.some(1))).toBe(true);
+      expect(Option.is(Option.none)).toBe(true);
+      expect(Option.is(Result.ok(1))).toBe(false);
+      expect(Option.is(undefined)).toBe(false);
+    });
+  });
+
   describe("assertSome", () => {
     it("should throw when asserting none", () => {
       const option = get({ a: 4 }, "b");
@@ -203,4 +427,194 @@ describe("Option", () => {
     expect(result.unwrapOr("default")).toBe("default");
     !Result.isOk(result) && expect(result.error).toBe("error");
   });
+
+  describe("gen", () => {
+    it("should return a Some of the generator's return value", () => {
+      const option = Option.gen(function* () {
+        const a = yield* get({ a: 4 }, "a");
+        const b = yield* Option.some(6);
+        return a + b;
+      });
+
+      expect(option.unwrap()).toBe(10);
+    });
+
+    it("should short-circuit on the first None", () => {
+      let reachedEnd = false;
+      const option = Option.gen(function* () {
+        const a = yield* get({ a: 4 }, "b");
+        reachedEnd = true;
+        return a;
+      });
+
+      expect(reachedEnd).toBe(false);
+      expect(Option.isNone(option)).toBe(true);
+    });
+
+    it("should end None's iterator after yielding it", () => {
+      expect([...Option.none]).toEqual([Option.none]);
+      expect(Array.from(Option.some(1))).toEqual([]);
+      expect(Option.some(1)).not.toEqual(Option.none);
+      expect(Option.none).toEqual(Option.none);
+    });
+  });
+
+  describe("genAsync", () => {
+    it("should return a Some of the generator's return value", async () => {
+      const option = await Option.genAsync(async function* () {
+        const a = yield* await Promise.resolve(Option.some(4));
+        return a * 2;
+      });
+
+      expect(option.unwrap()).toBe(8);
+    });
+
+    it("should short-circuit on the first None", async () => {
+      const option = await Option.genAsync(async function* () {
+        const a: number = yield* await Promise.resolve(Option.none);
+        return a * 2;
+      });
+
+      expect(Option.isNone(option)).toBe(true);
+    });
+  });
+
+  describe("all", () => {
+    it("should return a Some of all values in a tuple", () => {
+      const option = Option.all([Option.some(1), Option.some("a")]);
+
+      const typed: Option<[number, string]> = option;
+      expect(typed.unwrap()).toEqual([1, "a"]);
+    });
+
+    it("should return a Some of all values in a record", () => {
+      const option = Option.all({ a: get({ a: 4 }, "a"), b: Option.some(2) });
+      expect(option.unwrap()).toEqual({ a: 4, b: 2 });
+    });
+
+    it("should return None if any value is None", () => {
+      const option = Option.all([Option.some(1), Option.none]);
+      expect(Option.isNone(option)).toBe(true);
+    });
+  });
+
+  describe("traverse", () => {
+    const half = (x: number): Option<number> =>
+      x % 2 === 0 ? Option.some(x / 2) : Option.none;
+
+    it("should map every member of an array to a Some", () => {
+      expect(Option.traverse([2, 4], half).unwrap()).toEqual([1, 2]);
+    });
+
+    it("should map every member of a record to a Some", () => {
+      expect(Option.traverse({ a: 2, b: 4 }, half).unwrap()).toEqual({
+        a: 1,
+        b: 2,
+      });
+    });
+
+    it("should stop at the first None", () => {
+      const calls: number[] = [];
+      const option = Option.traverse([2, 3, 4], (x) => {
+        calls.push(x);
+        return half(x);
+      });
+      expect(Option.isNone(option)).toBe(true);
+      expect(calls).toEqual([2, 3]);
+    });
+  });
+
+  describe("match", () => {
+    it("should call the some handler for a some value", () => {
+      const message = get({ a: 4 }, "a").match({
+        some: (value) => `Got ${value}`,
+        none: () => "Nothing",
+      });
+      expect(message).toBe("Got 4");
+    });
+
+    it("should call the none handler for a none value", () => {
+      const message = get({ a: 4 }, "b").match({
+        some: (value) => `Got ${value}`,
+        none: () => "Nothing",
+      });
+      expect(message).toBe("Nothing");
+    });
+  });
+
+  describe("serialization", () => {
+    it("should encode to the wire format with toJSON", () => {
+      expect(Option.toJSON(Option.some(5))).toEqual({ some: 5 });
+      expect(Option.toJSON(Option.none)).toEqual({ none: true });
+    });
+
+    it("should use the wire format with JSON.stringify", () => {
+      expect(JSON.stringify(Option.some(5))).toBe('{"some":5}');
+      expect(JSON.stringify(Option.none)).toBe('{"none":true}');
+    });
+
+    it("should round-trip through stringify and parse", () => {
+      const some = Option.parse(Option.stringify(Option.some("a")));
+      expect(some.unwrap().unwrap()).toBe("a");
+
+      const none = Option.parse(Option.stringify(Option.none));
+      expect(Option.isNone(none.unwrap())).toBe(true);
+    });
+
+    it("should use a codec for the value", () => {
+      const text = Option.stringify(Option.some(BigInt(42)), Codec.bigint);
+      expect(text).toBe('{"some":"42"}');
+      expect(Option.parse(text, Codec.bigint).unwrap().unwrap()).toBe(
+        BigInt(42)
+      );
+    });
+
+    it("should keep nested options unambiguous", () => {
+      const codec = Option.codec(Option.codec());
+      const nested = codec.decode(codec.encode(Option.some(Option.none)));
+      expect(Option.isNone(nested.unwrap().unwrap())).toBe(true);
+    });
+
+    it("should return an Err for invalid JSON", () => {
+      expect(Option.parse("nope").isOk).toBe(false);
+    });
+
+    it("should return an Err for malformed data", () => {
+      const result = Option.fromJSON({ some: 1, none: true });
+      expect(result.isOk).toBe(false);
+    });
+
+    it("should return an Err when none isn't true", () => {
+      for (const none of [false, null, "yes", 1]) {
+        const result = Option.fromJSON({ none });
+        !result.isOk &&
+          expect(result.error).toEqual({
+            path: "$.none",
+            message: "Expected true",
+          });
+        expect(result.isOk).toBe(false);
+      }
+    });
+
+    it("should return an Err with the path when the codec fails", () => {
+      const result = Option.fromJSON({ some: 5 }, Codec.date);
+      !result.isOk && expect(result.error.path).toBe("$.some");
+    });
+  });
+
+  describe("errors", () => {
+    it("should throw an UnwrapError when unwrapping none", () => {
+      expect(() => Option.none.unwrap()).toThrow(UnwrapError);
+    });
+
+    it("should return the some value with expect", () => {
+      expect(Option.some(5).expect("Should be five")).toBe(5);
+    });
+
+    it("should throw the given message with expect on none", () => {
+      expect(() => Option.none.expect("No value")).toThrow(
+        new UnwrapError("No value")
+      );
+    });
+  });
 });
@@ -12,97 +12,608 @@
  * In other words, an `Err` is a failure, whereas an `Option` can contain no value and that's okay.
  */
 
-import { Result } from "./result";
-
-const someTag = Symbol("Some");
-const noneTag = Symbol("None");
-
-interface Some<T> {
-  _tag: typeof someTag;
-  isSome: true;
-  value: T;
-  unwrap(): T;
-  unwrapOr<T2>(defaultValue: T2): T;
-  map<T2>(fn: (value: T) => T2): Option<T2>;
-  andThen<T2>(fn: (value: T) => Option<T2>): Option<T2>;
-  toResult<E>(error: E): Result<T, never>;
+import { brandVersion, hasBrand, noneTag, someTag } from "./brand";
+import { Codec, DecodeError, singleKeyOf } from "./codec";
+import { Members, emptyLike } from "./collection";
+import {
+  InspectArgs,
+  formatVariant,
+  inspectCustom,
+  inspectVariant,
+} from "./debug";
+import { Eq, Ord, compare, equals } from "./equality";
+import { UnwrapError } from "./errors";
+import { Err, Ok, Result } from "./result";
+import { SomeType } from "./types";
+
+/** Some and None are classes, so that their methods are shared on the prototype. See `Ok` in `result.ts`. */
+class Some<T> {
+  constructor(public value: T) {}
+
+  get _tag(): typeof someTag {
+    return someTag;
+  }
+
+  get _version(): typeof brandVersion {
+    return brandVersion;
+  }
+
+  get isSome(): true {
+    return true;
+  }
+
+  unwrap(): T {
+    return this.value;
+  }
+
+  expect(_message: string): T {
+    return this.value;
+  }
+
+  unwrapOr<T2>(_defaultValue: T2): T {
+    return this.value;
+  }
+
+  unwrapOrElse<T2>(_fn: () => T2): T {
+    return this.value;
+  }
+
+  map<T2>(fn: (value: T) => T2): Some<T2> {
+    return new Some(fn(this.value));
+  }
+
+  /** Map the value, or return `defaultValue` if this is `None`. */
+  mapOr<D, T2>(_defaultValue: D, fn: (value: T) => T2): T2 {
+    return fn(this.value);
+  }
+
+  mapOrElse<D, T2>(_defaultFn: () => D, fn: (value: T) => T2): T2 {
+    return fn(this.value);
+  }
+
+  andThen<T2>(fn: (value: T) => Option<T2>): Option<T2> {
+    return fn(this.value);
+  }
+
+  /** Keep the value only if it passes the predicate. If the predicate is a type guard, the value type is narrowed. */
+  filter<S extends T = T>(
+    predicate: ((value: T) => value is S) | ((value: T) => boolean)
+  ): Option<S> {
+    // If the predicate passed, the value is known to be an `S`, but TypeScript can't narrow `this` to say so.
+    return predicate(this.value) ? (this as Some<T> as Some<S>) : Option.none;
+  }
+
+  /** Return `other` if this is a `Some`, otherwise `None`. */
+  and<T2>(other: Option<T2>): Option<T2> {
+    return other;
+  }
+
+  /** Return this if it is a `Some`, otherwise `other`. */
+  or<T2>(_other: Option<T2>): Some<T> {
+    return this;
+  }
+
+  orElse<T2>(_fn: () => Option<T2>): Some<T> {
+    return this;
+  }
+
+  /** Return whichever of this and `other` is a `Some`, if exactly one of them is. Otherwise `None`. */
+  xor<T2>(other: Option<T2>): Option<T | T2> {
+    return other.isSome ? Option.none : this;
+  }
+
+  /** Pair up the values of two Options, if both are a `Some`. */
+  zip<T2>(other: Option<T2>): Option<[T, T2]> {
+    return this.zipWith(other, (value, otherValue) => [value, otherValue]);
+  }
+
+  zipWith<T2, R>(other: Option<T2>, fn: (value: T, other: T2) => R): Option<R> {
+    return other.map((otherValue) => fn(this.value, otherValue));
+  }
+
+  /** The opposite of `zip`. This uses a `this` parameter, so it can only be called on an Option of a pair.
+   * The `this` type is an `Option` rather than a `Some`, so that it can be called on an `Option` as well.
+   */
+  unzip<A, B>(this: Option<readonly [A, B]>): [Option<A>, Option<B>] {
+    const [a, b] = (this as Some<readonly [A, B]>).value;
+    return [new Some(a), new Some(b)];
+  }
+
+  /** Remove one level of nesting, turning an `Option<Option<T>>` into an `Option<T>`. */
+  flatten<T2>(this: Option<Option<T2>>): Option<T2> {
+    return (this as Some<Option<T2>>).value;
+  }
+
+  toResult<E>(_error: E): Ok<T> {
+    return Result.ok(this.value);
+  }
+
+  /** Convert to a `Result`, using `error` if this is `None`. The same as `toResult`, with Rust's name. */
+  okOr<E>(_error: E): Ok<T> {
+    return Result.ok(this.value);
+  }
+
+  okOrElse<E>(_fn: () => E): Ok<T> {
+    return Result.ok(this.value);
+  }
+
+  /** Swap an `Option<Result<T, E>>` for a `Result<Option<T>, E>`. `Result.transpose` does the opposite. */
+  transpose<T2, E2>(this: Option<Result<T2, E2>>): Result<Option<T2>, E2> {
+    return (this as Some<Result<T2, E2>>).value.map((value) => new Some(value));
+  }
+
+  /** Convert to a nullable value, for APIs that use `null` for a missing value. */
+  toNullable(): T {
+    return this.value;
+  }
+
+  toUndefined(): T {
+    return this.value;
+  }
+
+  match<R1, R2>(cases: { some: (value: T) => R1; none: () => R2 }): R1 {
+    return cases.some(this.value);
+  }
+
+  inspect(fn: (value: T) => void): Some<T> {
+    fn(this.value);
+    return this;
+  }
+
+  tap(fn: (option: Some<T>) => void): Some<T> {
+    fn(this);
+    return this;
+  }
+
+  /** Check whether `other` is a `Some` with an equal value. See `Ok.equals`. */
+  equals(other: Option<T>, eqValue: Eq<T> = equals): boolean {
+    return other.isSome && eqValue(this.value, other.value);
+  }
+
+  /** Compare with `other` for sorting. `None` comes before `Some`, and two `Some`s are ordered by `ordValue`. */
+  compare(other: Option<T>, ordValue: Ord<T> = compare): number {
+    return other.isSome ? ordValue(this.value, other.value) : 1;
+  }
+
+  toString(): string {
+    return formatVariant("Some", this.value);
+  }
+
+  [inspectCustom](...args: InspectArgs): string {
+    return inspectVariant("Some", args, this.value);
+  }
+
+  toJSON(): { some: T } {
+    return { some: this.value };
+  }
+
+  // Like `Ok`, a Some returns its value for `yield*` in `Option.gen`, without yielding, so spreading it gives `[]`.
+  *[Symbol.iterator](): Generator<never, T, unknown> {
+    return this.value;
+  }
 }
 
-interface None {
-  _tag: typeof noneTag;
-  isSome: false;
-  unwrap(): never;
-  unwrapOr<T2>(defaultValue: T2): T2;
-  map<T2>(fn: (value: never) => T2): Option<T2>;
-  andThen<T2>(fn: (value: never) => Option<T2>): Option<T2>;
-  toResult<E>(error: E): Result<never, E>;
+/** There is only ever one instance of None, which is `Option.none`. */
+class None {
+  get _tag(): typeof noneTag {
+    return noneTag;
+  }
+
+  get _version(): typeof brandVersion {
+    return brandVersion;
+  }
+
+  get isSome(): false {
+    return false;
+  }
+
+  unwrap(): never {
+    throw new UnwrapError("Cannot unwrap None");
+  }
+
+  expect(message: string): never {
+    throw new UnwrapError(message);
+  }
+
+  unwrapOr<T2>(defaultValue: T2): T2 {
+    return defaultValue;
+  }
+
+  unwrapOrElse<T2>(fn: () => T2): T2 {
+    return fn();
+  }
+
+  map<T2>(_fn: (value: never) => T2): None {
+    return this;
+  }
+
+  mapOr<D, T2>(defaultValue: D, _fn: (value: never) => T2): D {
+    return defaultValue;
+  }
+
+  mapOrElse<D, T2>(defaultFn: () => D, _fn: (value: never) => T2): D {
+    return defaultFn();
+  }
+
+  andThen<T2>(_fn: (value: never) => Option<T2>): None {
+    return this;
+  }
+
+  filter(_predicate: (value: never) => boolean): None {
+    return this;
+  }
+
+  and<T2>(_other: Option<T2>): None {
+    return this;
+  }
+
+  or<T2>(other: Option<T2>): Option<T2> {
+    return other;
+  }
+
+  orElse<T2>(fn: () => Option<T2>): Option<T2> {
+    return fn();
+  }
+
+  xor<T2>(other: Option<T2>): Option<T2> {
+    return other;
+  }
+
+  zip<T2>(_other: Option<T2>): None {
+    return this;
+  }
+
+  zipWith<T2, R>(
+    _other: Option<T2>,
+    _fn: (value: never, other: T2) => R
+  ): None {
+    return this;
+  }
+
+  unzip(): [None, None] {
+    return [this, this];
+  }
+
+  flatten(): None {
+    return this;
+  }
+
+  toResult<E>(error: E): Err<E> {
+    return Result.err(error);
+  }
+
+  okOr<E>(error: E): Err<E> {
+    return Result.err(error);
+  }
+
+  okOrElse<E>(fn: () => E): Err<E> {
+    return Result.err(fn());
+  }
+
+  transpose(): Ok<None> {
+    return Result.ok(this);
+  }
+
+  toNullable(): null {
+    return null;
+  }
+
+  toUndefined(): undefined {
+    return undefined;
+  }
+
+  match<R1, R2>(cases: { some: (value: never) => R1; none: () => R2 }): R2 {
+    return cases.none();
+  }
+
+  inspect(_fn: (value: never) => void): None {
+    return this;
+  }
+
+  tap(fn: (option: None) => void): None {
+    fn(this);
+    return this;
+  }
+
+  equals(other: Option<unknown>, _eqValue?: Eq<never>): boolean {
+    return !other.isSome;
+  }
+
+  compare(other: Option<unknown>, _ordValue?: Ord<never>): number {
+    return other.isSome ? -1 : 0;
+  }
+
+  toString(): string {
+    return formatVariant("None");
+  }
+
+  [inspectCustom](...args: InspectArgs): string {
+    return inspectVariant("None", args);
+  }
+
+  toJSON(): { none: true } {
+    return { none: true };
+  }
+
+  // See `Err`'s iterator in `result.ts`. The return ends the iterator, so spreading `None` works.
+  *[Symbol.iterator](): Generator<None, never, unknown> {
+    yield this;
+    return undefined as never;
+  }
 }
 
 type Option<T> = Some<T> | None;
 
+/** The wire format of an Option, used when sending it across a JSON boundary.
+ *
+ * A `Some` is encoded as `{ "some": value }`, and `None` as `{ "none": true }`.
+ * Unlike encoding `None` as `null`, this keeps nested Options such as `Option<Option<T>>` unambiguous.
+ */
+type OptionJSON = { some: unknown } | { none: true };
+
+/** A collection of Options, either as an array, a tuple, or an object record. See `ResultCollection` in `result.ts`. */
+type OptionCollection =
+  | readonly Option<unknown>[]
+  | []
+  | { readonly [key: string]: Option<unknown> };
+
+type SomeValues<C> = { -readonly [K in keyof C]: SomeType<C[K]> };
+
 namespace Option {
   export function some<T>(value: T): Some<T> {
+    return new Some(value);
+  }
+
+  export const none: None = new None();
+
+  /** Convert a value that may be `null` or `undefined` into an Option. Both become `None`. */
+  export function fromNullable<T>(value: T): Option<NonNullable<T>> {
+    return value === null || value === undefined
+      ? Option.none
+      : Option.some(value);
+  }
+
+  /** Wrap a value in a `Some` if it passes the predicate, otherwise return `None`.
+   * If the predicate is a type guard, the value type is narrowed.
+   */
+  export function fromPredicate<T, S extends T>(
+    value: T,
+    predicate: (value: T) => value is S
+  ): Option<S>;
+  export function fromPredicate<T>(
+    value: T,
+    predicate: (value: T) => boolean
+  ): Option<T>;
+  export function fromPredicate<T>(
+    value: T,
+    predicate: (value: T) => boolean
+  ): Option<T> {
+    return predicate(value) ? Option.some(value) : Option.none;
+  }
+
+  /** Options are immutable, so Rust's `get_or_insert` and friends, which update an `Option` in place,
+   * instead update an Option stored at `holder[key]`. The holder could be a plain object or a class instance.
+   *
+   * E.g.
+   * ```ts
+   * const cache: { config: Option<Config> } = { config: Option.none };
+   * Option.getOrInsertWith(cache, "config", loadConfig); // Calls loadConfig
+   * Option.getOrInsertWith(cache, "config", loadConfig); // Returns the stored config
+   * ```
+   */
+  export function getOrInsert<T, K extends PropertyKey>(
+    holder: Record<K, Option<T>>,
+    key: K,
+    value: T
+  ): T {
+    return getOrInsertWith(holder, key, () => value);
+  }
+
+  /** Like `getOrInsert`, but only calls `fn` to create the value if it's needed. */
+  export function getOrInsertWith<T, K extends PropertyKey>(
+    holder: Record<K, Option<T>>,
+    key: K,
+    fn: () => T
+  ): T {
+    const current = holder[key];
+    if (current.isSome) {
+      return current.value;
+    }
+    const value = fn();
+    holder[key] = Option.some(value);
+    return value;
+  }
+
+  /** Take the Option out of `holder[key]`, leaving `None` in its place. */
+  export function take<T, K extends PropertyKey>(
+    holder: Record<K, Option<T>>,
+    key: K
+  ): Option<T> {
+    return replace(holder, key, Option.none);
+  }
+
+  /** Store `option` at `holder[key]`, and return the Option that was there before. */
+  export function replace<T, K extends PropertyKey>(
+    holder: Record<K, Option<T>>,
+    key: K,
+    option: Option<T>
+  ): Option<T> {
+    const previous = holder[key];
+    holder[key] = option;
+    return previous;
+  }
+
+  /** Run a generator function as "do notation" for Options.
+   *
+   * Inside the generator, `yield*` an `Option` to get at its value.
+   * If the `Option` is `None`, the generator is stopped and `None` is returned.
+   * If the generator runs to completion, its return value is wrapped in a `Some`.
+   *
+   * See `Result.gen` for more details.
+   */
+  export function gen<T>(fn: () => Generator<None, T, unknown>): Option<T> {
+    const iterator = fn();
+    const next = iterator.next();
+    if (next.done) {
+      return Option.some(next.value);
+    }
+    iterator.return(undefined as never);
+    return Option.none;
+  }
+
+  /** The async version of `Option.gen`. */
+  export async function genAsync<T>(
+    fn: () => AsyncGenerator<None, T, unknown>
+  ): Promise<Option<T>> {
+    const iterator = fn();
+    const next = await iterator.next();
+    if (next.done) {
+      return Option.some(next.value);
+    }
+    await iterator.return(undefined as never);
+    return Option.none;
+  }
+
+  /** Combine a collection of Options into a single Option.
+   * If every Option is a `Some`, a `Some` of all the values is returned, in the same shape as the input.
+   * Otherwise `None` is returned.
+   */
+  export function all<C extends OptionCollection>(
+    options: C
+  ): Option<SomeValues<C>> {
+    const values = emptyLike(options);
+    for (const [key, option] of Object.entries(options)) {
+      if (!option.isSome) {
+        return Option.none;
+      }
+      values[key] = option.value;
+    }
+    return Option.some(values as SomeValues<C>);
+  }
+
+  /** Apply an Option-returning function to every member of an array, tuple or record, combining the outcomes like `Option.all`.
+   * The function is not called for any members after the first `None`.
+   */
+  export function traverse<
+    C extends readonly unknown[] | [] | { readonly [key: string]: unknown },
+    T2
+  >(
+    collection: C,
+    fn: (value: Members<C>) => Option<T2>
+  ): Option<{ -readonly [K in keyof C]: T2 }> {
+    const values = emptyLike(collection);
+    for (const [key, value] of Object.entries(collection)) {
+      const option = fn(value as Members<C>);
+      if (!option.isSome) {
+        return Option.none;
+      }
+      values[key] = option.value;
+    }
+    return Option.some(values as { -readonly [K in keyof C]: T2 });
+  }
+
+  /** Create a `Codec` for Options, using the given codec for the value. */
+  export function codec<T = unknown>(
+    valueCodec: Codec<T> = Codec.unknown as Codec<T>
+  ): Codec<Option<T>> {
     return {
-      _tag: someTag,
-      isSome: true,
-      value,
-      unwrap() {
-        return value;
+      encode(option: Option<T>): OptionJSON {
+        return option.isSome
+          ? { some: valueCodec.encode(option.value) }
+          : { none: true };
       },
-      unwrapOr<T2>(_defaultValue: T2): T {
-        return value;
-      },
-      map<T2>(fn: (value: T) => T2): Option<T2> {
-        return Option.some(fn(value));
-      },
-      andThen<T2>(fn: (value: T) => Option<T2>): Option<T2> {
-        return fn(value);
-      },
-      toResult<E>(_error: E): Result<T, never> {
-        return Result.ok(value);
+      decode(data: unknown, path = "$"): Result<Option<T>, DecodeError> {
+        const key = singleKeyOf(data, ["some", "none"], path);
+        if (!key.isOk) {
+          return key;
+        }
+        const wire = data as Record<string, unknown>;
+        if (key.value === "none") {
+          return wire.none === true
+            ? Result.ok(Option.none)
+            : Result.err({ path: `${path}.none`, message: "Expected true" });
+        }
+        return valueCodec
+          .decode(wire.some, `${path}.some`)
+          .map((value): Option<T> => Option.some(value));
       },
     };
   }
 
-  export const none: None = {
-    _tag: noneTag,
-    isSome: false,
-    unwrap() {
-      throw new Error("Cannot unwrap None");
-    },
-    unwrapOr<T2>(defaultValue: T2): T2 {
-      return defaultValue;
-    },
-    map<T2>(_fn: (value: never) => T2): Option<T2> {
-      return this;
-    },
-    andThen<T2>(_fn: (value: never) => Option<T2>): Option<T2> {
-      return this;
-    },
-    toResult<E>(error: E): Result<never, E> {
-      return Result.err(error);
-    },
-  };
+  /** Encode an Option in its wire format, `{ "some": value }` or `{ "none": true }`. See `OptionJSON`. */
+  export function toJSON<T>(
+    option: Option<T>,
+    valueCodec?: Codec<T>
+  ): OptionJSON {
+    return codec(valueCodec).encode(option) as OptionJSON;
+  }
+
+  /** Decode an Option from its wire format.
+   * If the data is malformed, an `Err` describing the problem is returned rather than throwing.
+   */
+  export function fromJSON<T = unknown>(
+    data: unknown,
+    valueCodec?: Codec<T>
+  ): Result<Option<T>, DecodeError> {
+    return codec(valueCodec).decode(data);
+  }
+
+  /** Encode an Option as a JSON string. */
+  export function stringify<T>(
+    option: Option<T>,
+    valueCodec?: Codec<T>
+  ): string {
+    return JSON.stringify(toJSON(option, valueCodec));
+  }
+
+  /** Decode an Option from a JSON string. Invalid JSON is returned as an `Err`, just like malformed data. */
+  export function parse<T = unknown>(
+    text: string,
+    valueCodec?: Codec<T>
+  ): Result<Option<T>, DecodeError> {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      return Result.err({ path: "$", message: (error as Error).message });
+    }
+    return fromJSON(data, valueCodec);
+  }
+
+  /** Build an `Eq` for Options, from an `Eq` for the value. See `Result.Eq`. */
+  export function Eq<T>(eqValue: Eq<T> = equals): Eq<Option<T>> {
+    return (a, b) => a.equals(b, eqValue);
+  }
+
+  /** Build an `Ord` for Options. `None` comes before `Some`. */
+  export function Ord<T>(ordValue: Ord<T> = compare): Ord<Option<T>> {
+    return (a, b) => a.compare(b, ordValue);
+  }
+
+  /** Check whether any value at all is an Option, including one from another copy of this code. See `Result.is`. */
+  export function is(value: unknown): value is Option<unknown> {
+    return hasBrand(value, [someTag, noneTag]);
+  }
 
   export function isSome<T>(option: Option<T>): option is Some<T> {
-    return option._tag === someTag;
+    return hasBrand(option, [someTag]);
   }
 
   export function isNone<T>(option: Option<T>): option is None {
-    return option._tag === noneTag;
+    return hasBrand(option, [noneTag]);
   }
 
   export function assertSome<T>(option: Option<T>): asserts option is Some<T> {
-    if (option._tag !== someTag) {
+    if (!hasBrand(option, [someTag])) {
       throw new TypeError("Expected a Some, but got a None");
     }
   }
 
   export function assertNone<T>(option: Option<T>): asserts option is None {
-    if (option._tag !== noneTag) {
+    if (!hasBrand(option, [noneTag])) {
       throw new TypeError("Expected a None, but got a Some");
     }
   }
 }
 
-export { Option, Some, None };
+export { Option, Some, None, OptionJSON };
@@ -0,0 +1,36 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { Option } from "./option";
+import { ParseError, Parser } from "./parser";
+import { Result } from "./result";
+
+describe("Parser types", () => {
+  const number = Parser.regex(/\d+/).map(Number);
+
+  it("should type seq as a tuple", () => {
+    const pair = Parser.seq(Parser.char("("), number, Parser.string("ok"));
+
+    expectTypeOf(pair).toEqualTypeOf<Parser<["(", number, "ok"]>>();
+    expectTypeOf(pair.parse("")).toEqualTypeOf<
+      Result<["(", number, "ok"], ParseError>
+    >();
+  });
+
+  it("should type alt as a union", () => {
+    expectTypeOf(Parser.alt(number, Parser.string("none"))).toEqualTypeOf<
+      Parser<number | "none">
+    >();
+  });
+
+  it("should type optional as an Option", () => {
+    expectTypeOf(Parser.optional(number)).toEqualTypeOf<
+      Parser<Option<number>>
+    >();
+  });
+
+  it("should type recover as the value or the fallback", () => {
+    expectTypeOf(
+      Parser.recover(number, { until: Parser.char(","), fallback: () => null })
+    ).toEqualTypeOf<Parser<number | null>>();
+    expectTypeOf<Parser.Infer<typeof number>>().toEqualTypeOf<number>();
+  });
+});
@@ -0,0 +1,298 @@
+import { describe, it, expect } from "vitest";
+import { Parser } from "./parser";
+
+const digits = Parser.regex(/\d+/, "digits").map(Number);
+
+describe("Parser", () => {
+  describe("char and string", () => {
+    it("should match text exactly", () => {
+      expect(Parser.char("a").parse("a").unwrap()).toBe("a");
+      expect(Parser.string("let").parse("let").unwrap()).toBe("let");
+    });
+
+    it("should report what was expected, and where", () => {
+      const result = Parser.string("let").parse("lex");
+
+      !result.isOk &&
+        expect(result.error).toEqual({
+          offset: 0,
+          line: 1,
+          column: 1,
+          expected: ['"let"'],
+          found: '"l"',
+          message: 'Expected "let" at line 1, column 1, found "l"',
+        });
+      expect(result.isOk).toBe(false);
+    });
+
+    it("should only accept a single character for char", () => {
+      expect(Parser.char("😀").parse("😀").unwrap()).toBe("😀");
+      expect(() => Parser.char("ab")).toThrow(
+        new RangeError('Expected a single character, not "ab"')
+      );
+    });
+  });
+
+  describe("regex", () => {
+    it("should match only where the parser is", () => {
+      const word = Parser.regex(/[a-z]+/g);
+
+      expect(Parser.seq(digits, word).parse("12ab").unwrap()).toEqual([
+        12,
+        "ab",
+      ]);
+      expect(word.parse("1ab").isOk).toBe(false);
+    });
+
+    it("should describe the regex in errors by default", () => {
+      const result = Parser.regex(/[a-z]+/).parse("1");
+
+      !result.isOk && expect(result.error.expected).toEqual(["/[a-z]+/"]);
+    });
+  });
+
+  describe("seq", () => {
+    it("should give every value in a tuple", () => {
+      const point = Parser.seq(
+        Parser.char("("),
+        digits,
+        Parser.char(","),
+        digits,
+        Parser.char(")")
+      ).map(([, x, , y]) => ({ x, y }));
+
+      expect(point.parse("(1,2)").unwrap()).toEqual({ x: 1, y: 2 });
+    });
+
+    it("should count lines and columns", () => {
+      const lines = Parser.seq(Parser.string("a\nb\n"), Parser.char("c"));
+
+      const result = lines.parse("a\nb\nd");
+
+      !result.isOk &&
+        expect(result.error).toMatchObject({ offset: 4, line: 3, column: 1 });
+      expect(result.isOk).toBe(false);
+    });
+
+    it("should reject text left over at the end", () => {
+      const result = digits.parse("12x");
+
+      !result.isOk &&
+        expect(result.error.message).toBe(
+          'Expected end of input at line 1, column 3, found "x"'
+        );
+    });
+  });
+
+  describe("alt", () => {
+    it("should give the value of the first parser that succeeds", () => {
+      const bool = Parser.alt(
+        Parser.string("true").map(() => true),
+        Parser.string("false").map(() => false)
+      );
+
+      expect(bool.parse("false").unwrap()).toBe(false);
+    });
+
+    it("should list everything that was expected at the furthest failure", () => {
+      const keyword = Parser.alt(
+        Parser.string("let"),
+        Parser.string("if"),
+        Parser.seq(Parser.string("fo"), Parser.char("r"))
+      );
+
+      const first = keyword.parse("x");
+      const furthest = keyword.parse("fox");
+
+      !first.isOk &&
+        expect(first.error.message).toBe(
+          'Expected "let", "if", or "fo" at line 1, column 1, found "x"'
+        );
+      !furthest.isOk &&
+        expect(furthest.error.message).toBe(
+          'Expected "r" at line 1, column 3, found "x"'
+        );
+    });
+  });
+
+  describe("many and sepBy", () => {
+    it("should repeat a parser", () => {
+      const as = Parser.many(Parser.char("a"));
+
+      expect(as.parse("").unwrap()).toEqual([]);
+      expect(as.parse("aaa").unwrap()).toEqual(["a", "a", "a"]);
+    });
+
+    it("should stop repeating a parser that takes up no text", () => {
+      const nothing = Parser.many(Parser.regex(/a*/));
+
+      expect(nothing.parse("").unwrap()).toEqual([]);
+    });
+
+    it("should parse separated values", () => {
+      const list = Parser.sepBy(digits, Parser.char(","));
+
+      expect(list.parse("").unwrap()).toEqual([]);
+      expect(list.parse("1").unwrap()).toEqual([1]);
+      expect(list.parse("1,2,3").unwrap()).toEqual([1, 2, 3]);
+    });
+
+    it("should report a missing value after a separator", () => {
+      const result = Parser.sepBy(digits, Parser.char(",")).parse("1,");
+
+      !result.isOk &&
+        expect(result.error.message).toBe(
+          "Expected digits at line 1, column 3, found end of input"
+        );
+    });
+  });
+
+  describe("optional", () => {
+    it("should give an Option", () => {
+      const signed = Parser.seq(Parser.optional(Parser.char("-")), digits);
+
+      const [sign, n] = signed.parse("-5").unwrap();
+      expect(sign.isSome).toBe(true);
+      expect(n).toBe(5);
+      expect(signed.parse("5").unwrap()[0].isSome).toBe(false);
+    });
+  });
+
+  describe("map and chain", () => {
+    it("should choose the next parser from a value", () => {
+      // A length, then that many characters.
+      const counted = digits.chain((length) =>
+        Parser.regex(new RegExp(`.{${length}}`), `${length} characters`)
+      );
+
+      expect(counted.parse("3abc").unwrap()).toBe("abc");
+      expect(counted.parse("3ab").isOk).toBe(false);
+    });
+
+    it("should not run chain after a failure", () => {
+      expect(digits.chain(() => digits).parse("x").isOk).toBe(false);
+    });
+  });
+
+  describe("label", () => {
+    it("should replace what was expected where the parser started", () => {
+      const value = Parser.alt(Parser.char("a"), Parser.char("b")).label(
+        "letter"
+      );
+
+      const result = Parser.seq(Parser.optional(Parser.char("-")), value).parse(
+        "x"
+      );
+
+      !result.isOk && expect(result.error.expected).toEqual(['"-"', "letter"]);
+    });
+
+    it("should keep the details of a failure further in", () => {
+      const pair = Parser.seq(Parser.char("("), Parser.char(")")).label("pair");
+
+      const result = pair.parse("(x");
+
+      !result.isOk && expect(result.error.expected).toEqual(['")"']);
+    });
+
+    it("should not add the label when the parser succeeds", () => {
+      const value = Parser.seq(Parser.char("a").label("a"), Parser.char("b"));
+
+      const result = value.parse("ax");
+
+      !result.isOk && expect(result.error.expected).toEqual(['"b"']);
+    });
+  });
+
+  describe("lazy", () => {
+    type Nested = Nested[];
+    const nested: Parser<Nested> = Parser.lazy(() =>
+      Parser.seq(Parser.char("("), Parser.many(nested), Parser.char(")"))
+    ).map(([, children]) => children);
+
+    it("should allow a recursive grammar", () => {
+      expect(nested.parse("(()(()))").unwrap()).toEqual([[], [[]]]);
+    });
+
+    it("should give an error, instead of throwing, when the stack runs out", () => {
+      const result = nested.parse("(".repeat(100000));
+
+      !result.isOk && expect(result.error.expected).toEqual([]);
+      expect(result.isOk).toBe(false);
+    });
+
+    it("should not catch other errors", () => {
+      const throws = Parser.char("a").map(() => {
+        throw new TypeError("oops");
+      });
+
+      expect(() => throws.parse("a")).toThrow(TypeError);
+    });
+
+    it("should not catch a RangeError from a callback", () => {
+      const length = digits.map((n) => new Array(-n).length);
+
+      expect(() => length.parse("5")).toThrow(
+        new RangeError("Invalid array length")
+      );
+    });
+  });
+
+  describe("recover", () => {
+    const item = Parser.recover(digits, {
+      until: Parser.char(","),
+      fallback: (error) => error.found,
+    });
+    const list = Parser.sepBy(item, Parser.char(","));
+
+    it("should carry on past an error, to find every error", () => {
+      const { value, errors } = list.parseRecovering("1,x,3,yz");
+
+      expect(value.unwrap()).toEqual([1, '"x"', 3, '"y"']);
+      expect(errors.map((error) => error.column)).toEqual([3, 7]);
+    });
+
+    it("should still fail to parse, with the first error", () => {
+      const result = list.parse("1,x,3,yz");
+
+      !result.isOk && expect(result.error.column).toBe(3);
+      expect(result.isOk).toBe(false);
+    });
+
+    it("should give every error when the text still can't be parsed", () => {
+      const { value, errors } = Parser.seq(
+        list,
+        Parser.char(";")
+      ).parseRecovering("x,1");
+
+      expect(value.isSome).toBe(false);
+      expect(errors.map((error) => error.message)).toEqual([
+        'Expected digits at line 1, column 1, found "x"',
+        'Expected "," or ";" at line 1, column 4, found end of input',
+      ]);
+    });
+
+    it("should skip what `skip` matches as a whole", () => {
+      const quoted = Parser.recover(digits, {
+        until: Parser.char(","),
+        skip: Parser.regex(/'[^']*'/),
+        fallback: () => 0,
+      });
+
+      const { value, errors } = Parser.sepBy(
+        quoted,
+        Parser.char(",")
+      ).parseRecovering("1,'a,b',3");
+
+      expect(value.unwrap()).toEqual([1, 0, 3]);
+      expect(errors.map((error) => error.column)).toEqual([3]);
+    });
+
+    it("should give the value and no errors when there are none", () => {
+      const { value, errors } = list.parseRecovering("1,2");
+
+      expect(value.unwrap()).toEqual([1, 2]);
+      expect(errors).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * A small parser combinator library, for parsing DSLs and config formats into typed values.
+ *
+ * A `Parser<T>` reads a `T` from the start of some text. Small parsers for a single character or a regex are combined
+ * into bigger ones with functions such as `seq`, `alt` and `many`, so the code for a parser reads like the grammar
+ * that it parses. Running one returns a `Result`, which is either an `Ok` of the value, or an `Err` of a `ParseError`
+ * that says where the text went wrong, and what was expected there, instead of throwing.
+ *
+ * E.g.
+ * ```ts
+ * const number = Parser.regex(/\d+/, "a number").map(Number);
+ * const point = Parser.seq(Parser.char("("), number, Parser.char(","), number, Parser.char(")"))
+ *   .map(([, x, , y]) => ({ x, y }));
+ *
+ * point.parse("(1,2)"); // Ok({ x: 1, y: 2 })
+ * point.parse("(1;2)"); // Err(Expected "," at line 1, column 3, found ";")
+ * ```
+ *
+ * A failing parser doesn't stop the others. `alt` goes on to try the next choice, from the same place, and `many` stops
+ * repeating. So the error that is reported is the one that got the furthest into the text, as that is almost always
+ * where the mistake is, and it lists everything that any parser expected at that point. See `json-parser.ts` for
+ * a complete example.
+ */
+
+import { Option } from "./option";
+import { Result } from "./result";
+
+/** Where and why some text couldn't be parsed. `line` and `column` count from 1, for showing to a person. */
+interface ParseError {
+  offset: number;
+  line: number;
+  column: number;
+  /** Everything that could have come next, E.g. `['","', '"]"']`. */
+  expected: string[];
+  /** The character that was found instead, as a JSON string, or `end of input`. */
+  found: string;
+  message: string;
+}
+
+/** The value parsed with `parseRecovering`, along with every error that was recovered from. */
+interface Recovered<T> {
+  /** The parsed value, with a `recover` fallback in place of each error. `None` if the text couldn't be parsed. */
+  value: Option<T>;
+  errors: ParseError[];
+}
+
+/** The state of a single run of a parser, which every parser shares. Only needed for writing a parser from scratch. */
+interface ParseState {
+  readonly input: string;
+  /** The furthest offset that any parser has failed at, and everything that was expected there. */
+  furthest: number;
+  expected: Set<string>;
+  /** How many times a parser has failed. `label` uses this to tell whether its parser failed. */
+  failures: number;
+  /** The errors that `recover` has recovered from. */
+  errors: ParseError[];
+}
+
+/** What running a parser at an offset gives: the value and the offset after it, or `None` if it failed.
+ * The reason for a failure is kept in the `ParseState` instead, as it may not be the one that is reported.
+ */
+type Step<T> = Option<{ value: T; offset: number }>;
+
+interface Parser<T> {
+  /** Parse the whole of `input`. Any text left over after the value is an error. */
+  parse(input: string): Result<T, ParseError>;
+  /** Parse the whole of `input`, carrying on past any errors that a `recover` parser handles, to find all of them. */
+  parseRecovering(input: string): Recovered<T>;
+  /** Run the parser at `offset`. Parsers that contain other parsers use this to run them. */
+  run(state: ParseState, offset: number): Step<T>;
+  map<U>(fn: (value: T) => U): Parser<U>;
+  /** Choose the parser for the rest of the text based on a parsed value, E.g. a length followed by that many items. */
+  chain<U>(fn: (value: T) => Parser<U>): Parser<U>;
+  /** Describe what this parser expects in errors, E.g. `value` instead of every kind of value.
+   * The name is only used when the parser fails without getting any further than where it started.
+   */
+  label(name: string): Parser<T>;
+}
+
+/** A tuple of parsers, inferred as a tuple thanks to the `| []`. See `ResultCollection` in `result.ts`. */
+type Parsers = readonly Parser<unknown>[] | [];
+
+interface RecoverOptions<F> {
+  /** Skip the text up to where this parser matches. It isn't consumed, so the parser after `recover` can read it. */
+  until: Parser<unknown>;
+  /** Skip what this parser matches as a whole while looking for `until`, E.g. a string or a bracketed group, so that
+   * an `until` inside it isn't mistaken for the end of the bad text.
+   */
+  skip?: Parser<unknown>;
+  /** The value to use in place of the one that couldn't be parsed. */
+  fallback: (error: ParseError) => F;
+}
+
+namespace Parser {
+  /** The type of value that a parser produces. E.g. `Parser.Infer<typeof point>`. */
+  export type Infer<P> = P extends Parser<infer T> ? T : never;
+
+  function succeed<T>(value: T, offset: number): Step<T> {
+    return Option.some({ value, offset });
+  }
+
+  /** Record that `expected` was expected at `offset`, and fail. Only the furthest failures are kept. */
+  function fail(
+    state: ParseState,
+    offset: number,
+    expected: string
+  ): Step<never> {
+    if (offset > state.furthest) {
+      state.furthest = offset;
+      state.expected = new Set();
+    }
+    if (offset === state.furthest) {
+      state.expected.add(expected);
+    }
+    state.failures++;
+    return Option.none;
+  }
+
+  /** The line and column of `offset`, and the character there. */
+  function locate(input: string, offset: number) {
+    const lines = input.slice(0, offset).split("\n");
+    const line = lines.length;
+    const column = lines[lines.length - 1].length + 1;
+    const found =
+      offset < input.length ? JSON.stringify(input[offset]) : "end of input";
+    return { line, column, found };
+  }
+
+  /** Build the error for the furthest failure so far. */
+  function errorAt(state: ParseState): ParseError {
+    const { input, furthest: offset } = state;
+    const { line, column, found } = locate(input, offset);
+    const expected = [...state.expected];
+    return {
+      offset,
+      line,
+      column,
+      expected,
+      found,
+      message: `Expected ${new Intl.ListFormat("en", {
+        type: "disjunction",
+      }).format(expected)} at line ${line}, column ${column}, found ${found}`,
+    };
+  }
+
+  /** Check whether an error is the one that V8 (Node and Chrome) throws when the stack runs out. */
+  function isStackOverflow(error: unknown): boolean {
+    return (
+      error instanceof RangeError &&
+      error.message === "Maximum call stack size exceeded"
+    );
+  }
+
+  /** Build the error for text that is nested too deeply to parse, at the furthest point that was reached. */
+  function tooDeepAt(state: ParseState): ParseError {
+    const offset = Math.max(state.furthest, 0);
+    const { line, column, found } = locate(state.input, offset);
+    return {
+      offset,
+      line,
+      column,
+      expected: [],
+      found,
+      message: `Nested too deeply to parse at line ${line}, column ${column}`,
+    };
+  }
+
+  /** Build a parser from a function that runs it, adding the methods that every parser shares. */
+  function parser<T>(
+    run: (state: ParseState, offset: number) => Step<T>
+  ): Parser<T> {
+    return {
+      run,
+      parse(input: string): Result<T, ParseError> {
+        const { value, errors } = this.parseRecovering(input);
+        return value.isSome && errors.length === 0
+          ? Result.ok(value.value)
+          : Result.err(errors[0]);
+      },
+      parseRecovering(input: string): Recovered<T> {
+        const state: ParseState = {
+          input,
+          furthest: -1,
+          expected: new Set(),
+          failures: 0,
+          errors: [],
+        };
+        let step: Step<T>;
+        try {
+          step = run(state, 0);
+        } catch (error) {
+          // Each level of a recursive grammar takes a few stack frames, so deeply nested text runs out of stack.
+          // That is a limit of the text, not a bug in the parser, so it is an error too. Any other error, even another
+          // `RangeError`, comes from a bug in a callback such as `map`'s, so it is thrown as it is.
+          if (!isStackOverflow(error)) {
+            throw error;
+          }
+          return {
+            value: Option.none,
+            errors: [...state.errors, tooDeepAt(state)],
+          };
+        }
+        if (step.isSome && step.value.offset === input.length) {
+          return { value: Option.some(step.value.value), errors: state.errors };
+        }
+        if (step.isSome) {
+          fail(state, step.value.offset, "end of input");
+        }
+        return {
+          value: Option.none,
+          errors: [...state.errors, errorAt(state)],
+        };
+      },
+      map<U>(fn: (value: T) => U): Parser<U> {
+        return parser((state, offset) =>
+          run(state, offset).map((step) => ({ ...step, value: fn(step.value) }))
+        );
+      },
+      chain<U>(fn: (value: T) => Parser<U>): Parser<U> {
+        return parser((state, offset) =>
+          run(state, offset).andThen((step) =>
+            fn(step.value).run(state, step.offset)
+          )
+        );
+      },
+      label(name: string): Parser<T> {
+        return parser((state, offset) => {
+          // Copied, as a failure at `offset` would add to the same set.
+          const before = new Set(
+            state.furthest === offset ? state.expected : []
+          );
+          const failures = state.failures;
+          const step = run(state, offset);
+          if (state.failures > failures && state.furthest === offset) {
+            state.expected = before.add(name);
+          }
+          return step;
+        });
+      },
+    };
+  }
+
+  /** Match `text` exactly. */
+  function literal(text: string): Parser<string> {
+    const expected = JSON.stringify(text);
+    return parser((state, offset) =>
+      state.input.startsWith(text, offset)
+        ? succeed(text, offset + text.length)
+        : fail(state, offset, expected)
+    );
+  }
+
+  /** Match a single character. */
+  export function char<C extends string>(c: C): Parser<C> {
+    if ([...c].length !== 1) {
+      throw new RangeError(
+        `Expected a single character, not ${JSON.stringify(c)}`
+      );
+    }
+    return literal(c) as Parser<C>;
+  }
+
+  /** Match a string exactly. The type is the literal type of the string, E.g. `Parser<"true">`. */
+  export function string<S extends string>(text: S): Parser<S> {
+    return literal(text) as Parser<S>;
+  }
+
+  /** Match a regex, starting exactly where the parser is, and give the matched text.
+   * `expected` describes it in errors, and defaults to the regex itself.
+   */
+  export function regex(
+    pattern: RegExp,
+    expected: string = String(pattern)
+  ): Parser<string> {
+    // The sticky flag makes the regex only match at `lastIndex`, instead of searching the rest of the text.
+    const sticky = new RegExp(
+      pattern.source,
+      pattern.flags.replace(/[gy]/g, "") + "y"
+    );
+    return parser((state, offset) => {
+      sticky.lastIndex = offset;
+      const match = sticky.exec(state.input);
+      return match
+        ? succeed(match[0], offset + match[0].length)
+        : fail(state, offset, expected);
+    });
+  }
+
+  /** Run each parser in turn, and give all of their values, as a tuple of the same length. */
+  export function seq<Ps extends Parsers>(
+    ...parsers: Ps
+  ): Parser<{ -readonly [K in keyof Ps]: Infer<Ps[K]> }> {
+    return parser((state, offset) => {
+      const values: unknown[] = [];
+      let current = offset;
+      for (const p of parsers) {
+        const step = p.run(state, current);
+        if (!step.isSome) {
+          return Option.none;
+        }
+        values.push(step.value.value);
+        current = step.value.offset;
+      }
+      return succeed(
+        values as { -readonly [K in keyof Ps]: Infer<Ps[K]> },
+        current
+      );
+    });
+  }
+
+  /** Try each parser in order, from the same place, and give the value of the first one that succeeds. */
+  export function alt<Ps extends [Parser<unknown>, ...Parser<unknown>[]]>(
+    ...parsers: Ps
+  ): Parser<Infer<Ps[number]>> {
+    return parser((state, offset) => {
+      for (const p of parsers) {
+        const step = p.run(state, offset);
+        if (step.isSome) {
+          return step as Step<Infer<Ps[number]>>;
+        }
+      }
+      return Option.none;
+    });
+  }
+
+  /** Run a parser as many times as it succeeds, even none, and give every value.
+   * A value that took up no text ends the repetition, as the parser would give it forever.
+   */
+  export function many<T>(p: Parser<T>): Parser<T[]> {
+    return parser((state, offset) => {
+      const values: T[] = [];
+      let current = offset;
+      let step = p.run(state, current);
+      while (step.isSome && step.value.offset > current) {
+        values.push(step.value.value);
+        current = step.value.offset;
+        step = p.run(state, current);
+      }
+      return succeed(values, current);
+    });
+  }
+
+  /** Parse any number of values, even none, separated by `separator`, E.g. the items of a list. */
+  export function sepBy<T>(
+    p: Parser<T>,
+    separator: Parser<unknown>
+  ): Parser<T[]> {
+    return optional(
+      seq(p, many(seq(separator, p).map(([, value]) => value)))
+    ).map((option) =>
+      option.map(([first, rest]) => [first, ...rest]).unwrapOr([])
+    );
+  }
+
+  /** Give a `Some` of the parser's value if it succeeds, or a `None`, without taking up any text, if it fails. */
+  export function optional<T>(p: Parser<T>): Parser<Option<T>> {
+    return parser((state, offset) => {
+      const step = p.run(state, offset);
+      return step.isSome
+        ? succeed(Option.some(step.value.value), step.value.offset)
+        : succeed<Option<T>>(Option.none, offset);
+    });
+  }
+
+  /** Create the parser the first time it is run, so that a grammar can refer to itself,
+   * E.g. a JSON array that contains JSON values. Without this, the parser would have to exist before it was created.
+   */
+  export function lazy<T>(fn: () => Parser<T>): Parser<T> {
+    let p: Parser<T> | undefined;
+    return parser((state, offset) => (p ??= fn()).run(state, offset));
+  }
+
+  /** Carry on past a failure of `p`, to find more errors in the same text.
+   *
+   * The error is recorded, the text is skipped up to where `until` matches, or the end, stepping over anything that
+   * `skip` matches, and the `fallback` value
+   * is used in place of the one that couldn't be parsed. `parse` still fails, with the first error, while
+   * `parseRecovering` gives every error, and a value built from the fallbacks.
+   *
+   * The recorded error is kept even if an `alt` around this goes on to try another choice, so only use this where
+   * nothing else could be parsed instead, such as an item of a list.
+   */
+  export function recover<T, F>(
+    p: Parser<T>,
+    options: RecoverOptions<F>
+  ): Parser<T | F> {
+    return parser<T | F>((state, offset) => {
+      const step = p.run(state, offset);
+      if (step.isSome) {
+        return step;
+      }
+      const error = errorAt(state);
+      state.errors.push(error);
+      state.furthest = -1;
+      state.expected = new Set();
+      let current = offset;
+      while (
+        current < state.input.length &&
+        !lookahead(options.until, state, current).isSome
+      ) {
+        const skipped = options.skip
+          ? lookahead(options.skip, state, current)
+          : Option.none;
+        current =
+          skipped.isSome && skipped.value.offset > current
+            ? skipped.value.offset
+            : current + 1;
+      }
+      return succeed(options.fallback(error), current);
+    });
+  }
+
+  /** Run `p` at `offset` without recording its failures. */
+  function lookahead(
+    p: Parser<unknown>,
+    state: ParseState,
+    offset: number
+  ): Step<unknown> {
+    const { furthest, failures } = state;
+    const expected = new Set(state.expected);
+    const step = p.run(state, offset);
+    Object.assign(state, { furthest, expected, failures });
+    return step;
+  }
+}
+
+export { Parser, ParseError, ParseState, Recovered, RecoverOptions };
@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  Backoff,
+  CircuitOpenError,
+  TimeoutError,
+  circuitBreaker,
+  fallback,
+  retry,
+  timeout,
+} from "./resilience";
+import { Result } from "./result";
+
+describe("resilience", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  /** A function that returns each of the given Results in turn, and records the arguments of each call. */
+  function sequence<T, E>(...results: Result<T, E>[]) {
+    return vi.fn(
+      async (_id: string): Promise<Result<T, E>> => results.shift()!
+    );
+  }
+
+  /** A function that resolves to `result` after `ms` milliseconds. */
+  function slow<T, E>(ms: number, result: Result<T, E>) {
+    return () =>
+      new Promise<Result<T, E>>((resolve) =>
+        setTimeout(() => resolve(result), ms)
+      );
+  }
+
+  describe("retry", () => {
+    it("should return the first Ok without retrying", async () => {
+      const fn = sequence(Result.ok(1));
+      const result = await retry(fn)("a");
+      expect(result.unwrap()).toBe(1);
+      expect(fn).toHaveBeenCalledOnce();
+      expect(fn).toHaveBeenCalledWith("a");
+    });
+
+    it("should retry until the function returns an Ok", async () => {
+      const fn = sequence<number, string>(
+        Result.err("first"),
+        Result.err("second"),
+        Result.ok(3)
+      );
+      const pending = retry(fn, { attempts: 3, backoff: 100 })("a");
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(fn).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(100);
+      expect((await pending).unwrap()).toBe(3);
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should return the last Err when it runs out of attempts", async () => {
+      const fn = sequence<number, string>(
+        Result.err("first"),
+        Result.err("second")
+      );
+      const pending = retry(fn, { attempts: 2 })("a");
+
+      await vi.runAllTimersAsync();
+      const result = await pending;
+      !result.isOk && expect(result.error).toBe("second");
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only retry errors that pass retryIf", async () => {
+      const fn = sequence<number, string>(
+        Result.err("timeout"),
+        Result.err("not found"),
+        Result.ok(3)
+      );
+      const retryIf = vi.fn((error: string) => error === "timeout");
+      const pending = retry(fn, { attempts: 5, retryIf })("a");
+
+      await vi.runAllTimersAsync();
+      const result = await pending;
+      !result.isOk && expect(result.error).toBe("not found");
+      expect(retryIf).toHaveBeenLastCalledWith("not found", 2);
+    });
+
+    it("should wait for the backoff before each retry", async () => {
+      const fn = sequence<number, string>(
+        Result.err("first"),
+        Result.err("second"),
+        Result.ok(3)
+      );
+      const pending = retry(fn, { backoff: Backoff.exponential(100) })("a");
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(fn).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fn).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(fn).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await pending).unwrap()).toBe(3);
+    });
+
+    it("should take a random amount off the backoff with jitter", async () => {
+      vi.spyOn(Math, "random").mockReturnValue(0.5);
+      const fn = sequence<number, string>(Result.err("first"), Result.ok(2));
+      const pending = retry(fn, { backoff: 100, jitter: 1 })("a");
+
+      await vi.advanceTimersByTimeAsync(49);
+      expect(fn).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await pending).unwrap()).toBe(2);
+    });
+  });
+
+  describe("Backoff", () => {
+    it("should wait the same time with constant", () => {
+      const backoff = Backoff.constant(50);
+      expect([1, 2, 3].map(backoff)).toEqual([50, 50, 50]);
+    });
+
+    it("should grow the wait with exponential, up to maxMs", () => {
+      const backoff = Backoff.exponential(100, { factor: 3, maxMs: 1000 });
+      expect([1, 2, 3, 4].map(backoff)).toEqual([100, 300, 900, 1000]);
+    });
+  });
+
+  describe("timeout", () => {
+    it("should return the result when the function finishes in time", async () => {
+      const pending = timeout(slow(50, Result.ok(1)), 100)();
+      await vi.advanceTimersByTimeAsync(50);
+      expect((await pending).unwrap()).toBe(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should return a TimeoutError when the function is too slow", async () => {
+      const pending = timeout(slow(500, Result.ok(1)), 100)();
+      await vi.advanceTimersByTimeAsync(100);
+      const result = await pending;
+
+      expect(result.isOk).toBe(false);
+      if (!result.isOk) {
+        expect(result.error).toBeInstanceOf(TimeoutError);
+        expect(result.error).toMatchObject({ kind: "TimeoutError", ms: 100 });
+        expect(String(result.error)).toBe(
+          "TimeoutError: Timed out after 100ms"
+        );
+      }
+    });
+
+    it("should keep the function's own errors", async () => {
+      const result = await timeout(async () => Result.err("boom"), 100)();
+      !result.isOk && expect(result.error).toBe("boom");
+    });
+
+    it("should not start a timer when the function throws", () => {
+      const fn = timeout(() => {
+        throw new Error("bug");
+      }, 100);
+      expect(() => fn()).toThrow("bug");
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe("fallback", () => {
+    it("should not call the alternative for an Ok", async () => {
+      const alternative = vi.fn(() => Result.ok("cached"));
+      const result = await fallback(
+        sequence(Result.ok("fresh")),
+        alternative
+      )("a");
+      expect(result.unwrap()).toBe("fresh");
+      expect(alternative).not.toHaveBeenCalled();
+    });
+
+    it("should call the alternative with the error and arguments", async () => {
+      const alternative = vi.fn((error: string, id: string) =>
+        Result.ok(`${id} from the cache, after ${error}`)
+      );
+      const result = await fallback(
+        sequence<string, string>(Result.err("timeout")),
+        alternative
+      )("a");
+      expect(result.unwrap()).toBe("a from the cache, after timeout");
+    });
+
+    it("should return the alternative's Err", async () => {
+      const result = await fallback(
+        sequence<string, string>(Result.err("timeout")),
+        async () => Result.err(404)
+      )("a");
+      !result.isOk && expect(result.error).toBe(404);
+    });
+  });
+
+  describe("circuitBreaker", () => {
+    const failing = () => Result.err("down");
+
+    it("should pass calls through while closed", async () => {
+      const breaker = circuitBreaker(sequence(Result.ok(1)));
+      expect((await breaker("a")).unwrap()).toBe(1);
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should open after failureThreshold failures in a row", async () => {
+      const fn = vi.fn(failing);
+      const breaker = circuitBreaker(fn, { failureThreshold: 2 });
+
+      await breaker();
+      expect(breaker.state).toBe("closed");
+      await breaker();
+      expect(breaker.state).toBe("open");
+
+      const result = await breaker();
+      !result.isOk && expect(result.error).toBeInstanceOf(CircuitOpenError);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reset the count of failures after a success", async () => {
+      const breaker = circuitBreaker(
+        sequence<number, string>(
+          Result.err("down"),
+          Result.ok(1),
+          Result.err("down")
+        ),
+        { failureThreshold: 2 }
+      );
+      await breaker("a");
+      await breaker("a");
+      await breaker("a");
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should not count errors that fail isFailure", async () => {
+      const breaker = circuitBreaker(() => Result.err("not found"), {
+        failureThreshold: 1,
+        isFailure: (error) => error !== "not found",
+      });
+      await breaker();
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should allow one trial call after resetAfterMs", async () => {
+      let recovered = false;
+      const flaky = circuitBreaker(
+        () => (recovered ? slow(10, Result.ok("up"))() : Result.err("down")),
+        { failureThreshold: 1, resetAfterMs: 1000 }
+      );
+
+      await flaky();
+      expect(flaky.state).toBe("open");
+      vi.advanceTimersByTime(1000);
+      expect(flaky.state).toBe("half-open");
+
+      recovered = true;
+      const trial = flaky();
+      const refused = await flaky();
+      !refused.isOk && expect(refused.error).toBeInstanceOf(CircuitOpenError);
+
+      await vi.advanceTimersByTimeAsync(10);
+      expect((await trial).unwrap()).toBe("up");
+      expect(flaky.state).toBe("closed");
+    });
+
+    it("should open again when the trial call fails", async () => {
+      const breaker = circuitBreaker(failing, {
+        failureThreshold: 3,
+        resetAfterMs: 1000,
+      });
+      await breaker();
+      await breaker();
+      await breaker();
+
+      vi.advanceTimersByTime(1000);
+      await breaker();
+      expect(breaker.state).toBe("open");
+      vi.advanceTimersByTime(999);
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should end the trial when the function throws", async () => {
+      let broken = true;
+      const breaker = circuitBreaker(
+        () => {
+          if (broken) {
+            throw new Error("bug");
+          }
+          return Result.err("down");
+        },
+        { failureThreshold: 1, resetAfterMs: 1000 }
+      );
+      broken = false;
+      await breaker();
+      vi.advanceTimersByTime(1000);
+
+      broken = true;
+      await expect(breaker()).rejects.toThrow("bug");
+      broken = false;
+      await breaker();
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should ignore calls that finish after the circuit opened", async () => {
+      const results = [
+        slow(100, Result.ok("late")),
+        async () => Result.err("down"),
+      ];
+      const breaker = circuitBreaker(() => results.shift()!(), {
+        failureThreshold: 1,
+      });
+
+      const late = breaker();
+      await breaker();
+      expect(breaker.state).toBe("open");
+      await vi.advanceTimersByTimeAsync(100);
+      expect((await late).unwrap()).toBe("late");
+      expect(breaker.state).toBe("open");
+    });
+  });
+});
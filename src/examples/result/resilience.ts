@@ -0,0 +1,261 @@
+/**
+ * Policies for calling operations that can fail: retrying them, giving up after a time limit, falling back to an
+ * alternative, and failing fast with a circuit breaker.
+ *
+ * Each policy takes a function that returns a `Result`, a promise of one, or an `AsyncResult`, and returns a new
+ * function with the same parameters that returns an `AsyncResult`. As the new function has the same shape, the
+ * policies can be wrapped around each other.
+ *
+ * E.g.
+ * ```ts
+ * const getUser = fallback(
+ *   timeout(retry(fetchUser, { attempts: 3, backoff: Backoff.exponential(100) }), 2000),
+ *   (error, id) => readCachedUser(id)
+ * );
+ *
+ * const user = await getUser("1");
+ * ```
+ *
+ * Failures that are reported as an `Err` go through the policies, but a function that throws or rejects is a bug,
+ * rather than an expected failure, so the exception is passed straight through.
+ * All of the waiting is done with `setTimeout` and `Date.now`, so they can be tested with fake timers.
+ */
+
+import { AsyncResult } from "./async-result";
+import { taggedError } from "./errors";
+import { Result } from "./result";
+
+/** A function that returns a Result, either directly or asynchronously. An `AsyncResult` is `PromiseLike`, so it counts. */
+type ResultFn<A extends unknown[], T, E> = (
+  ...args: A
+) => Result<T, E> | PromiseLike<Result<T, E>>;
+
+/** The `Err` from a function wrapped with `timeout`, when it didn't finish in time. */
+class TimeoutError extends taggedError("TimeoutError")<{ ms: number }> {
+  constructor(ms: number) {
+    super({ ms });
+    this.message = `Timed out after ${ms}ms`;
+  }
+}
+
+/** The `Err` from a function wrapped with `circuitBreaker`, when the circuit is open and the call wasn't made. */
+class CircuitOpenError extends taggedError("CircuitOpenError") {
+  constructor() {
+    super();
+    this.message = "The circuit is open";
+  }
+}
+
+/** How long to wait before each retry, in milliseconds. It is given the number of the attempt that just failed, from 1. */
+type Backoff = (attempt: number) => number;
+
+namespace Backoff {
+  /** Wait the same time before every retry. */
+  export function constant(ms: number): Backoff {
+    return () => ms;
+  }
+
+  /** Multiply the wait by `factor` after each attempt: 100ms, 200ms, 400ms and so on, but never more than `maxMs`. */
+  export function exponential(
+    initialMs: number,
+    { factor = 2, maxMs = Infinity }: { factor?: number; maxMs?: number } = {}
+  ): Backoff {
+    return (attempt) => Math.min(initialMs * factor ** (attempt - 1), maxMs);
+  }
+}
+
+interface RetryOptions<E> {
+  /** The most times to call the function, including the first call. Defaults to 3. */
+  attempts?: number;
+  /** How long to wait before each retry. A number waits the same time before each one. Defaults to 0. */
+  backoff?: number | Backoff;
+  /** Take a random amount off each wait, up to this fraction of it, from 0 to 1. Defaults to 0.
+   *
+   * When a service fails, every client retries, and if they all use the same backoff, they all retry at the same
+   * moments. Jitter spreads those retries out.
+   */
+  jitter?: number;
+  /** Decide whether an error is worth retrying. A "not found" won't go away by asking again, but a timeout might.
+   * Defaults to retrying every error.
+   */
+  retryIf?: (error: E, attempt: number) => boolean;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Call the function again when it returns an `Err`, until it returns an `Ok` or runs out of attempts.
+ * The result is the first `Ok`, or the last `Err`.
+ */
+function retry<A extends unknown[], T, E>(
+  fn: ResultFn<A, T, E>,
+  options: RetryOptions<E> = {}
+): (...args: A) => AsyncResult<T, E> {
+  const { attempts = 3, backoff = 0, jitter = 0, retryIf } = options;
+  const delay =
+    typeof backoff === "number" ? Backoff.constant(backoff) : backoff;
+
+  async function run(args: A): Promise<Result<T, E>> {
+    let result = await fn(...args);
+    for (
+      let attempt = 1;
+      !result.isOk &&
+      attempt < attempts &&
+      (!retryIf || retryIf(result.error, attempt));
+      attempt++
+    ) {
+      await sleep(delay(attempt) * (1 - jitter * Math.random()));
+      result = await fn(...args);
+    }
+    return result;
+  }
+
+  return (...args) => AsyncResult.fromResult(run(args));
+}
+
+/** Return an `Err` of a `TimeoutError` if the function hasn't finished within `ms` milliseconds.
+ *
+ * JavaScript has no way to stop a function that is running, so the call carries on in the background, and its result
+ * is ignored. To actually cancel the work, such as an HTTP request, pass an `AbortSignal` to it as well.
+ */
+function timeout<A extends unknown[], T, E>(
+  fn: ResultFn<A, T, E>,
+  ms: number
+): (...args: A) => AsyncResult<T, E | TimeoutError> {
+  return (...args) => {
+    // Called before the timer is started, so that a function that throws doesn't leave a timer behind.
+    const pending = fn(...args);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<Result<never, TimeoutError>>((resolve) => {
+      timer = setTimeout(() => resolve(Result.err(new TimeoutError(ms))), ms);
+    });
+    return AsyncResult.fromResult<T, E | TimeoutError>(
+      Promise.race([pending, timedOut]).finally(() => clearTimeout(timer))
+    );
+  };
+}
+
+/** When the function returns an `Err`, call `alternative` with the error and the same arguments, and return its result instead.
+ *
+ * E.g. `fallback(fetchPrices, (error, id) => readCachedPrices(id))`
+ */
+function fallback<A extends unknown[], T, E, T2, E2>(
+  fn: ResultFn<A, T, E>,
+  // `NoInfer` makes the parameters come from `fn`, so an `alternative` that ignores them doesn't change them.
+  alternative: (
+    error: E,
+    ...args: NoInfer<A>
+  ) => Result<T2, E2> | PromiseLike<Result<T2, E2>>
+): (...args: A) => AsyncResult<T | T2, E2> {
+  return (...args) =>
+    AsyncResult.fromResult<T | T2, E2>(
+      Promise.resolve(fn(...args)).then((result) =>
+        result.isOk ? result : alternative(result.error, ...args)
+      )
+    );
+}
+
+/** A circuit is "closed" while calls go through, "open" while they are refused, and "half-open" while a single trial
+ * call is allowed, to find out whether the function has recovered.
+ */
+type CircuitState = "closed" | "open" | "half-open";
+
+interface CircuitBreakerOptions<E> {
+  /** How many failures in a row open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call is allowed, in milliseconds. Defaults to 30 seconds. */
+  resetAfterMs?: number;
+  /** Decide whether an error counts as a failure. A "not found" means the service is working, so it shouldn't.
+   * Defaults to counting every error.
+   */
+  isFailure?: (error: E) => boolean;
+}
+
+/** A function wrapped with `circuitBreaker`. It can be called like the original, and has the state of the circuit. */
+interface CircuitBreaker<A extends unknown[], T, E> {
+  (...args: A): AsyncResult<T, E | CircuitOpenError>;
+  readonly state: CircuitState;
+}
+
+/** Stop calling a function that keeps failing, and return an `Err` of a `CircuitOpenError` straight away instead.
+ *
+ * This gives a struggling service time to recover, instead of adding to its load, and means callers don't wait for
+ * calls that are likely to fail anyway. After `failureThreshold` failures in a row, the circuit opens. After
+ * `resetAfterMs`, it becomes half-open, and the next call is let through as a trial. If that succeeds, the circuit
+ * closes again, and if it fails, the circuit opens for another `resetAfterMs`.
+ */
+function circuitBreaker<A extends unknown[], T, E>(
+  fn: ResultFn<A, T, E>,
+  options: CircuitBreakerOptions<E> = {}
+): CircuitBreaker<A, T, E> {
+  const { failureThreshold = 5, resetAfterMs = 30_000, isFailure } = options;
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+  let trialInProgress = false;
+
+  // The circuit doesn't need a timer to become half-open, as the time is checked whenever it is used.
+  function currentState(): CircuitState {
+    if (state === "open" && Date.now() - openedAt >= resetAfterMs) {
+      state = "half-open";
+    }
+    return state;
+  }
+
+  function open() {
+    state = "open";
+    openedAt = Date.now();
+    failures = 0;
+  }
+
+  async function run(args: A, trial: boolean): Promise<Result<T, E>> {
+    try {
+      const result = await fn(...args);
+      const failed = !result.isOk && (!isFailure || isFailure(result.error));
+      // A call that started before the circuit opened doesn't change it.
+      if (state === "open" && !trial) {
+        return result;
+      }
+      if (!failed) {
+        state = "closed";
+        failures = 0;
+      } else if (trial || ++failures >= failureThreshold) {
+        open();
+      }
+      return result;
+    } finally {
+      if (trial) {
+        trialInProgress = false;
+      }
+    }
+  }
+
+  const call = (...args: A): AsyncResult<T, E | CircuitOpenError> => {
+    const current = currentState();
+    if (current === "open" || (current === "half-open" && trialInProgress)) {
+      return AsyncResult.err(new CircuitOpenError());
+    }
+    const trial = current === "half-open";
+    trialInProgress ||= trial;
+    return AsyncResult.fromResult<T, E | CircuitOpenError>(run(args, trial));
+  };
+
+  return Object.defineProperty(call, "state", {
+    get: currentState,
+  }) as CircuitBreaker<A, T, E>;
+}
+
+export {
+  retry,
+  timeout,
+  fallback,
+  circuitBreaker,
+  Backoff,
+  TimeoutError,
+  CircuitOpenError,
+  RetryOptions,
+  CircuitBreakerOptions,
+  CircuitBreaker,
+  CircuitState,
+};
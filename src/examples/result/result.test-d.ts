@@ -0,0 +1,194 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { AsyncResult } from "./async-result";
+import { ContextError } from "./errors";
+import { None, Option, Some } from "./option";
+import { Err, Ok, Result } from "./result";
+
+// These tests are only type checked, and never run. Each one checks the type that a method returns,
+// both on a single variant, and on the union `Result<T, E>`, where it should combine the types from both variants.
+
+/** A method called on a union returns a union of what each variant returns, E.g. `Ok<A> | Err<B> | Err<C>`.
+ * This collects those back into a single `Result<A, B | C>`, so that it can be compared with `toEqualTypeOf`.
+ */
+type Combined<R> = Result<
+  R extends Ok<infer T> ? T : never,
+  R extends Err<infer E> ? E : never
+>;
+
+declare const ok: Ok<number>;
+declare const err: Err<string>;
+declare const result: Result<number, string>;
+declare const other: Result<boolean, Error>;
+
+describe("Result types", () => {
+  it("should unwrap to the value type", () => {
+    expectTypeOf(ok.unwrap()).toEqualTypeOf<number>();
+    expectTypeOf(err.unwrap()).toEqualTypeOf<never>();
+    expectTypeOf(result.unwrap()).toEqualTypeOf<number>();
+    expectTypeOf(result.expect("")).toEqualTypeOf<number>();
+  });
+
+  it("should include the default in unwrapOr", () => {
+    expectTypeOf(ok.unwrapOr("")).toEqualTypeOf<number>();
+    expectTypeOf(err.unwrapOr("")).toEqualTypeOf<string>();
+    expectTypeOf(result.unwrapOr(null)).toEqualTypeOf<number | null>();
+    expectTypeOf(result.unwrapOr(0)).toEqualTypeOf<number>();
+  });
+
+  it("should pass the error to unwrapOrElse", () => {
+    expectTypeOf(result.unwrapOrElse)
+      .parameter(0)
+      .parameter(0)
+      .toEqualTypeOf<string>();
+    expectTypeOf(result.unwrapOrElse((e) => e.length > 0)).toEqualTypeOf<
+      number | boolean
+    >();
+  });
+
+  it("should unwrap the error type with unwrapErr", () => {
+    expectTypeOf(ok.unwrapErr()).toEqualTypeOf<never>();
+    expectTypeOf(err.unwrapErr()).toEqualTypeOf<string>();
+    expectTypeOf(result.unwrapErr()).toEqualTypeOf<string>();
+    expectTypeOf(result.expectErr("")).toEqualTypeOf<string>();
+  });
+
+  it("should keep the variant when mapping", () => {
+    expectTypeOf(ok.map(String)).toEqualTypeOf<Ok<string>>();
+    expectTypeOf(err.map(String)).toEqualTypeOf<Err<string>>();
+    expectTypeOf(ok.mapErr(String)).toEqualTypeOf<Ok<number>>();
+    expectTypeOf(err.mapErr((e) => e.length)).toEqualTypeOf<Err<number>>();
+    expectTypeOf(ok.mapBoth(String, String)).toEqualTypeOf<Ok<string>>();
+    expectTypeOf(err.mapBoth(String, (e) => e.length)).toEqualTypeOf<
+      Err<number>
+    >();
+  });
+
+  it("should map a Result", () => {
+    expectTypeOf(result.map(String)).toEqualTypeOf<Result<string, string>>();
+    expectTypeOf(result.mapErr((e) => e.length)).toEqualTypeOf<
+      Result<number, number>
+    >();
+    expectTypeOf(result.mapBoth(String, (e) => e.length)).toEqualTypeOf<
+      Result<string, number>
+    >();
+    expectTypeOf(result.mapOr(null, String)).toEqualTypeOf<string | null>();
+    expectTypeOf(result.mapOrElse((e) => e.length, String)).toEqualTypeOf<
+      string | number
+    >();
+  });
+
+  it("should combine the error types of andThen", () => {
+    const chained = result.andThen(() => other);
+    expectTypeOf(err.andThen(() => other)).toEqualTypeOf<Err<string>>();
+    expectTypeOf(ok.andThen(() => other)).toEqualTypeOf<
+      Result<boolean, Error>
+    >();
+    expectTypeOf<Combined<typeof chained>>().toEqualTypeOf<
+      Result<boolean, string | Error>
+    >();
+  });
+
+  it("should combine Results with and, or and orElse", () => {
+    const anded = result.and(other);
+    const ored = result.or(other);
+    const orElsed = result.orElse(() => other);
+    expectTypeOf<Combined<typeof anded>>().toEqualTypeOf<
+      Result<boolean, string | Error>
+    >();
+    expectTypeOf<Combined<typeof ored>>().toEqualTypeOf<
+      Result<number | boolean, Error>
+    >();
+    expectTypeOf<Combined<typeof orElsed>>().toEqualTypeOf<
+      Result<number | boolean, Error>
+    >();
+    expectTypeOf(ok.or(other)).toEqualTypeOf<Ok<number>>();
+    expectTypeOf(err.and(other)).toEqualTypeOf<Err<string>>();
+  });
+
+  it("should flatten a nested Result", () => {
+    const nested = {} as Result<Result<boolean, Error>, string>;
+    const flat = nested.flatten();
+    expectTypeOf<Combined<typeof flat>>().toEqualTypeOf<
+      Result<boolean, string | Error>
+    >();
+    // @ts-expect-error - the value isn't a Result
+    result.flatten();
+  });
+
+  it("should convert to an Option", () => {
+    expectTypeOf(ok.toOption()).toEqualTypeOf<Some<number>>();
+    expectTypeOf(err.toOption()).toEqualTypeOf<None>();
+    expectTypeOf(result.toOption()).toEqualTypeOf<Option<number>>();
+    expectTypeOf(result.ok()).toEqualTypeOf<Option<number>>();
+    expectTypeOf(result.err()).toEqualTypeOf<Option<string>>();
+  });
+
+  it("should transpose a Result of an Option", () => {
+    const transposable = {} as Result<Option<number>, string>;
+    const transposed = transposable.transpose();
+    expectTypeOf(transposed.unwrap()).toEqualTypeOf<Result<number, string>>();
+    // @ts-expect-error - the value isn't an Option
+    result.transpose();
+  });
+
+  it("should pass the right types to callbacks", () => {
+    result.map((value) => expectTypeOf(value).toEqualTypeOf<number>());
+    result.mapErr((error) => expectTypeOf(error).toEqualTypeOf<string>());
+    result.orElse((error) => {
+      expectTypeOf(error).toEqualTypeOf<string>();
+      return other;
+    });
+    result.inspectErr((error) => expectTypeOf(error).toEqualTypeOf<string>());
+    result.isErrAnd((error) => {
+      expectTypeOf(error).toEqualTypeOf<string>();
+      return true;
+    });
+    result.tap((r) => expectTypeOf(r).toEqualTypeOf<Result<number, string>>());
+  });
+
+  it("should combine the types of match", () => {
+    expectTypeOf(
+      result.match({ ok: (value) => value > 0, err: (error) => error })
+    ).toEqualTypeOf<boolean | string>();
+  });
+
+  it("should keep the type when inspecting", () => {
+    expectTypeOf(result.inspect(() => {})).toEqualTypeOf<
+      Result<number, string>
+    >();
+    expectTypeOf(result.inspectErr(() => {})).toEqualTypeOf<
+      Result<number, string>
+    >();
+    expectTypeOf(result.tap(() => {})).toEqualTypeOf<Result<number, string>>();
+    expectTypeOf(result.context("")).toEqualTypeOf<
+      Result<number, ContextError<string>>
+    >();
+  });
+
+  it("should narrow with isOk", () => {
+    if (result.isOk) {
+      expectTypeOf(result).toEqualTypeOf<Ok<number>>();
+    } else {
+      expectTypeOf(result).toEqualTypeOf<Err<string>>();
+    }
+    if (Result.isErr(result)) {
+      expectTypeOf(result.error).toEqualTypeOf<string>();
+    }
+  });
+
+  it("should infer the types of the factories", () => {
+    expectTypeOf(Result.ok(1)).toEqualTypeOf<Ok<number>>();
+    expectTypeOf(Result.err("boom")).toEqualTypeOf<Err<string>>();
+    expectTypeOf(Result.try(() => 1)).toEqualTypeOf<Result<number, unknown>>();
+    expectTypeOf(Result.fromPromise(Promise.resolve(1), String)).toEqualTypeOf<
+      AsyncResult<number, string>
+    >();
+  });
+
+  it("should not allow a value to be used before narrowing", () => {
+    // @ts-expect-error - `value` only exists on `Ok`
+    result.value;
+    // @ts-expect-error - `error` only exists on `Err`
+    result.error;
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { Result } from "./result";
-import { Option } from "./option";
+import { Err, Ok, Result } from "./result";
+import { None, Option, Some } from "./option";
+import { Codec } from "./codec";
+import { ContextError, UnwrapError } from "./errors";
 
 describe("Result", () => {
   it("should unwrap ok value", () => {
@@ -190,6 +192,225 @@ describe("Result", () => {
     });
   });
 
+  describe("std::result methods", () => {
+    // `as` stops the type being narrowed to `Ok` or `Err`, so that the methods are called on a `Result`.
+    const ok = Result.ok(5) as Result<number, string>;
+    const err = Result.err("boom") as Result<number, string>;
+
+    it("should unwrap with a default computed from the error", () => {
+      expect(ok.unwrapOrElse((e) => e.length)).toBe(5);
+      expect(err.unwrapOrElse((e) => e.length)).toBe(4);
+    });
+
+    it("should unwrap the error", () => {
+      expect(err.unwrapErr()).toBe("boom");
+      expect(err.expectErr("Expected an error")).toBe("boom");
+      expect(() => ok.unwrapErr()).toThrow(
+        new UnwrapError("Cannot unwrapErr an Ok")
+      );
+      expect(() => ok.expectErr("Expected an error")).toThrow(
+        new UnwrapError("Expected an error")
+      );
+    });
+
+    it("should check the variant and its contents", () => {
+      expect(ok.isOkAnd((x) => x > 1)).toBe(true);
+      expect(ok.isOkAnd((x) => x > 10)).toBe(false);
+      expect(err.isOkAnd(() => true)).toBe(false);
+      expect(err.isErrAnd((e) => e === "boom")).toBe(true);
+      expect(ok.isErrAnd(() => true)).toBe(false);
+    });
+
+    it("should map with a default", () => {
+      expect(ok.mapOr("failed", String)).toBe("5");
+      expect(err.mapOr("failed", String)).toBe("failed");
+      expect(ok.mapOrElse((e) => `failed: ${e}`, String)).toBe("5");
+      expect(err.mapOrElse((e) => `failed: ${e}`, String)).toBe("failed: boom");
+    });
+
+    it("should combine Results with and and or", () => {
+      const other: Result<string, Error> = Result.ok("a");
+
+      const anded: Result<string, string | Error> = ok.and(other);
+      expect(anded.unwrap()).toBe("a");
+      expect(err.and(other).isOk).toBe(false);
+
+      const ored: Result<number | string, Error> = err.or(other);
+      expect(ored.unwrap()).toBe("a");
+      expect(ok.or(other).unwrap()).toBe(5);
+    });
+
+    it("should recover from an error with orElse", () => {
+      const recovered = err.orElse((e) =>
+        e === "boom" ? Result.ok(0) : Result.err(new Error(e))
+      );
+      expect(recovered.unwrap()).toBe(0);
+      expect(ok.orElse(() => Result.ok(0)).unwrap()).toBe(5);
+    });
+
+    it("should flatten a nested Result", () => {
+      const nested: Result<Result<number, Error>, string> = Result.ok(
+        Result.err(new Error("inner"))
+      );
+      const flat: Result<number, string | Error> = nested.flatten();
+      !flat.isOk && expect(flat.error).toEqual(new Error("inner"));
+      expect(Result.ok(Result.ok(5)).flatten().unwrap()).toBe(5);
+      expect(Result.err("boom").flatten().isOk).toBe(false);
+
+      // @ts-expect-error
+      ok.flatten();
+    });
+
+    it("should convert to an Option with ok and err", () => {
+      expect(ok.ok().unwrap()).toBe(5);
+      expect(ok.err().isSome).toBe(false);
+      expect(err.ok().isSome).toBe(false);
+      expect(err.err().unwrap()).toBe("boom");
+    });
+
+    it("should transpose a Result of an Option", () => {
+      const someValue: Result<Option<number>, string> = Result.ok(
+        Option.some(5)
+      );
+      const transposed: Option<Result<number, string>> = someValue.transpose();
+      expect(transposed.unwrap().unwrap()).toBe(5);
+
+      const noValue: Result<Option<number>, string> = Result.ok(Option.none);
+      expect(noValue.transpose().isSome).toBe(false);
+
+      const failed: Result<Option<number>, string> = Result.err("boom");
+      expect(failed.transpose().unwrap().isOk).toBe(false);
+
+      // @ts-expect-error
+      expect(() => ok.transpose()).toThrow(TypeError);
+    });
+
+    it("should iterate over the value", () => {
+      expect([...ok.iter()]).toEqual([5]);
+      expect([...err.iter()]).toEqual([]);
+    });
+
+    it("should keep the variant in the return type", () => {
+      const some: Some<number> = Result.ok(5).ok();
+      const none: None = Result.ok(5).err();
+      const error: string = Result.err("boom").unwrapErr();
+      expect(some.isSome && !none.isSome && error).toBe("boom");
+    });
+  });
+
+  describe("fromThrowable", () => {
+    const parseJSON = Result.fromThrowable(
+      JSON.parse,
+      (error) => (error as SyntaxError).name
+    );
+
+    it("should return an Ok if the function returns", () => {
+      expect(parseJSON('{"a":1}').unwrap()).toEqual({ a: 1 });
+    });
+
+    it("should return an Err if the function throws", () => {
+      const result: Result<unknown, string> = parseJSON("{");
+      !result.isOk && expect(result.error).toBe("SyntaxError");
+    });
+
+    it("should keep the thrown value if there is no mapError", () => {
+      const thrown = new Error("boom");
+      const fn = Result.fromThrowable((fail: boolean) => {
+        if (fail) {
+          throw thrown;
+        }
+        return 1;
+      });
+      const result: Result<number, unknown> = fn(true);
+      !result.isOk && expect(result.error).toBe(thrown);
+      expect(fn(false).unwrap()).toBe(1);
+    });
+  });
+
+  describe("wrap", () => {
+    it("should convert a throwing function into one that returns a Result", () => {
+      const parseJSON = Result.wrap(JSON.parse);
+      expect(parseJSON("[1]").unwrap()).toEqual([1]);
+
+      const result = parseJSON("{");
+      !result.isOk && expect(result.error).toBeInstanceOf(SyntaxError);
+    });
+
+    it("should pass on every argument", () => {
+      const add = Result.wrap((a: number, b: number) => a + b);
+      expect(add(1, 2).unwrap()).toBe(3);
+    });
+  });
+
+  describe("try", () => {
+    it("should return an Ok if the function returns", () => {
+      const result: Result<number, unknown> = Result.try(() => 5);
+      expect(result.unwrap()).toBe(5);
+    });
+
+    it("should return an Err if the function throws", () => {
+      const result = Result.try(
+        () => JSON.parse("{"),
+        (error) => String(error)
+      );
+      !result.isOk && expect(result.error).toMatch(/^SyntaxError/);
+    });
+
+    it("should keep the thrown value if there is no mapError", () => {
+      const result = Result.try(() => {
+        throw "boom";
+      });
+      !result.isOk && expect(result.error).toBe("boom");
+    });
+  });
+
+  describe("classes", () => {
+    it("should support instanceof", () => {
+      expect(Result.ok(1)).toBeInstanceOf(Ok);
+      expect(Result.err("boom")).toBeInstanceOf(Err);
+      expect(Result.ok(1)).not.toBeInstanceOf(Err);
+    });
+
+    it("should share methods between instances", () => {
+      expect(Result.ok(1).map).toBe(Result.ok(2).map);
+      expect(Object.keys(Result.ok(1))).toEqual(["value"]);
+    });
+
+    it("should recognise plain object variants with the same tag", () => {
+      // Results built by the previous object literal implementation still have the same tags.
+      const ok = { _tag: Result.ok(0)._tag, isOk: true, value: 1 };
+      const err = { _tag: Result.err(0)._tag, isOk: false, error: "boom" };
+
+      expect(Result.isOk(ok as Result<number, string>)).toBe(true);
+      expect(Result.isErr(err as Result<number, string>)).toBe(true);
+      expect(Result.isOk(err as Result<number, string>)).toBe(false);
+    });
+  });
+
+  describe("is", () => {
+    it("should recognise Results in unknown values", () => {
+      expect(Result.is(Result.ok(1))).toBe(true);
+      expect(Result.is(Result.err("boom"))).toBe(true);
+      expect(Result.is(Option.some(1))).toBe(false);
+      expect(Result.is({ isOk: true, value: 1 })).toBe(false);
+      expect(Result.is(null)).toBe(false);
+      expect(Result.is("Ok")).toBe(false);
+    });
+
+    it("should narrow an unknown value", () => {
+      const value: unknown = Result.ok(1);
+      if (Result.is(value)) {
+        expect(value.unwrapOr(0)).toBe(1);
+      }
+    });
+
+    it("should reject a value with a different version", () => {
+      const { _tag } = Result.ok(1);
+      expect(Result.is({ _tag, _version: 1, isOk: true })).toBe(true);
+      expect(Result.is({ _tag, _version: 2, isOk: true })).toBe(false);
+    });
+  });
+
   describe("assertOk", () => {
     it("should throw when asserting err", () => {
       const result = sqrt(-1);
@@ -278,4 +499,361 @@ describe("Result", () => {
     const option = result.toOption();
     expect(option.isSome).toBe(false);
   });
+
+  describe("gen", () => {
+    function divide(x: number, y: number): Result<number, "DivideByZero"> {
+      return y === 0 ? Result.err("DivideByZero") : Result.ok(x / y);
+    }
+
+    it("should return an Ok of the generator's return value", () => {
+      const result = Result.gen(function* () {
+        const a = yield* divide(10, 2);
+        const b = yield* sqrt(a);
+        return a + b;
+      });
+
+      expect(result.unwrap()).toBeCloseTo(7.236);
+    });
+
+    it("should short-circuit on the first Err", () => {
+      let reachedEnd = false;
+      const result = Result.gen(function* () {
+        const a = yield* divide(10, 0);
+        const b = yield* sqrt(-1);
+        reachedEnd = true;
+        return a + b;
+      });
+
+      expect(reachedEnd).toBe(false);
+      expect(result.isOk).toBe(false);
+      !result.isOk && expect(result.error).toBe("DivideByZero");
+    });
+
+    it("should infer the union of all error types", () => {
+      const checkedSqrt = (x: number): Result<number, "NegativeNumber"> =>
+        x < 0 ? Result.err("NegativeNumber") : Result.ok(Math.sqrt(x));
+
+      const result = Result.gen(function* () {
+        const a = yield* divide(1, 1);
+        return yield* checkedSqrt(a);
+      });
+
+      // The error type is inferred as `"DivideByZero" | "NegativeNumber"`, so these assignments prove the inference.
+      const typed: Result<number, "DivideByZero" | "NegativeNumber"> = result;
+      // @ts-expect-error - "NegativeNumber" is missing from the error type
+      const tooNarrow: Result<number, "DivideByZero"> = result;
+      expect(typed.isOk).toBe(true);
+    });
+
+    it("should run finally blocks when short-circuiting", () => {
+      let cleanedUp = false;
+      Result.gen(function* () {
+        try {
+          return yield* sqrt(-1);
+        } finally {
+          cleanedUp = true;
+        }
+      });
+
+      expect(cleanedUp).toBe(true);
+    });
+
+    it("should end an Err's iterator after yielding it", () => {
+      const err = Result.err("error");
+
+      expect([...err]).toEqual([err]);
+      expect([...Result.ok(1)]).toEqual([]);
+      expect(Result.err(1)).not.toEqual(Result.err(2));
+      expect(Result.err(1)).toEqual(Result.err(1));
+    });
+  });
+
+  describe("genAsync", () => {
+    const sqrtAsync = async (x: number) => sqrt(x);
+
+    it("should return an Ok of the generator's return value", async () => {
+      const result = await Result.genAsync(async function* () {
+        const a = yield* await sqrtAsync(16);
+        const b = yield* Result.fromPromise(Promise.resolve(a * 2), String);
+        return a + b;
+      });
+
+      expect(result.unwrap()).toBe(12);
+    });
+
+    it("should short-circuit on the first Err", async () => {
+      let reachedEnd = false;
+      const result = await Result.genAsync(async function* () {
+        const a = yield* Result.fromPromise(Promise.reject("boom"), String);
+        reachedEnd = true;
+        return a;
+      });
+
+      expect(reachedEnd).toBe(false);
+      !result.isOk && expect(result.error).toBe("boom");
+    });
+  });
+
+  describe("all", () => {
+    it("should return an Ok of all values in a tuple", () => {
+      const result = Result.all([Result.ok(1), Result.ok("a"), sqrt(4)]);
+
+      // The type at each position of the tuple is preserved
+      const typed: Result<[number, string, number], string> = result;
+      expect(typed.unwrap()).toEqual([1, "a", 2]);
+    });
+
+    it("should return the first Err in a tuple", () => {
+      const result = Result.all([
+        Result.ok(1),
+        Result.err("first"),
+        Result.err("second"),
+      ]);
+      !result.isOk && expect(result.error).toBe("first");
+    });
+
+    it("should return an Ok of all values in a record", () => {
+      const result = Result.all({ a: Result.ok(1), b: sqrt(9) });
+
+      const typed: Result<{ a: number; b: number }, string> = result;
+      expect(typed.unwrap()).toEqual({ a: 1, b: 3 });
+    });
+
+    it("should return the first Err in a record", () => {
+      const result = Result.all({ a: sqrt(-1), b: Result.ok(1) });
+      expect(result.isOk).toBe(false);
+    });
+
+    it("should return an Ok of an empty array for no results", () => {
+      expect(Result.all([]).unwrap()).toEqual([]);
+    });
+  });
+
+  describe("allWithAllErrors", () => {
+    it("should return an Ok of all values when there are no errors", () => {
+      const result = Result.allWithAllErrors({ a: Result.ok(1), b: sqrt(9) });
+      expect(result.unwrap()).toEqual({ a: 1, b: 3 });
+    });
+
+    it("should collect every error", () => {
+      const result = Result.allWithAllErrors([
+        Result.err("first"),
+        Result.ok(1),
+        Result.err("second"),
+      ]);
+      !result.isOk && expect(result.error).toEqual(["first", "second"]);
+    });
+  });
+
+  describe("any", () => {
+    it("should return the first Ok", () => {
+      const result = Result.any([sqrt(-1), Result.ok("a"), Result.ok(2)]);
+      expect(result.unwrap()).toBe("a");
+    });
+
+    it("should return an Err of all errors in a tuple", () => {
+      const result = Result.any([Result.err("first"), Result.err(2)]);
+
+      const typed: Result<never, [string, number]> = result;
+      !typed.isOk && expect(typed.error).toEqual(["first", 2]);
+    });
+
+    it("should return an Err of all errors in a record", () => {
+      const result = Result.any({ a: Result.err("first"), b: Result.err(2) });
+      !result.isOk && expect(result.error).toEqual({ a: "first", b: 2 });
+    });
+  });
+
+  describe("partition", () => {
+    it("should split results into oks and errs", () => {
+      const { oks, errs } = Result.partition([
+        sqrt(4),
+        sqrt(-1),
+        sqrt(9),
+        sqrt(-4),
+      ]);
+      expect(oks).toEqual([2, 3]);
+      expect(errs).toHaveLength(2);
+    });
+  });
+
+  describe("traverse", () => {
+    it("should map every member of an array to an Ok", () => {
+      const result = Result.traverse([4, 9, 16], sqrt);
+      expect(result.unwrap()).toEqual([2, 3, 4]);
+    });
+
+    it("should map every member of a record to an Ok", () => {
+      const result = Result.traverse({ a: 4, b: 9 }, sqrt);
+      expect(result.unwrap()).toEqual({ a: 2, b: 3 });
+    });
+
+    it("should stop at the first Err", () => {
+      const calls: number[] = [];
+      const result = Result.traverse([4, -1, 9], (x) => {
+        calls.push(x);
+        return sqrt(x);
+      });
+      expect(result.isOk).toBe(false);
+      expect(calls).toEqual([4, -1]);
+    });
+  });
+
+  describe("match", () => {
+    it("should call the ok handler for an ok value", () => {
+      const message = sqrt(4).match({
+        ok: (value) => `Got ${value}`,
+        err: (error) => `Failed: ${error}`,
+      });
+      expect(message).toBe("Got 2");
+    });
+
+    it("should call the err handler for an err value", () => {
+      const message = Result.err("oops").match({
+        ok: (value) => `Got ${value}`,
+        err: (error) => `Failed: ${error}`,
+      });
+      expect(message).toBe("Failed: oops");
+    });
+
+    it("should return the union of both handler return types", () => {
+      const value = sqrt(-1).match({ ok: (value) => value, err: () => false });
+
+      const typed: number | boolean = value;
+      expect(typed).toBe(false);
+    });
+  });
+
+  describe("serialization", () => {
+    it("should encode to the wire format with toJSON", () => {
+      expect(Result.toJSON(Result.ok(5))).toEqual({ ok: 5 });
+      expect(Result.toJSON(Result.err("error"))).toEqual({ err: "error" });
+    });
+
+    it("should use the wire format with JSON.stringify", () => {
+      expect(JSON.stringify(Result.ok(5))).toBe('{"ok":5}');
+      expect(JSON.stringify(Result.err("error"))).toBe('{"err":"error"}');
+    });
+
+    it("should round-trip through stringify and parse", () => {
+      const ok = Result.parse(Result.stringify(Result.ok({ a: 1 })));
+      expect(ok.unwrap().unwrap()).toEqual({ a: 1 });
+
+      const err = Result.parse(Result.stringify(Result.err("error")));
+      const inner = err.unwrap();
+      !inner.isOk && expect(inner.error).toBe("error");
+    });
+
+    it("should round-trip through structuredClone", () => {
+      const date = new Date("2024-08-01T12:00:00.000Z");
+      const cloned = structuredClone(Result.toJSON(Result.ok(date)));
+      expect(Result.fromJSON(cloned).unwrap().unwrap()).toEqual(date);
+    });
+
+    it("should use codecs for the value and error", () => {
+      const codecs = { value: Codec.date, error: Codec.bigint };
+      const date = new Date("2024-08-01T12:00:00.000Z");
+
+      const text = Result.stringify(Result.ok(date), codecs);
+      expect(text).toBe('{"ok":"2024-08-01T12:00:00.000Z"}');
+      expect(Result.parse(text, codecs).unwrap().unwrap()).toEqual(date);
+
+      const errText = Result.stringify(Result.err(BigInt(10)), codecs);
+      expect(errText).toBe('{"err":"10"}');
+      const inner = Result.parse(errText, codecs).unwrap();
+      !inner.isOk && expect(inner.error).toBe(BigInt(10));
+    });
+
+    it("should round-trip nested results with a nested codec", () => {
+      const codecs = { value: Result.codec({ value: Codec.date }) };
+      const date = new Date("2024-08-01T12:00:00.000Z");
+
+      const text = Result.stringify(Result.ok(Result.ok(date)), codecs);
+      expect(text).toBe('{"ok":{"ok":"2024-08-01T12:00:00.000Z"}}');
+      expect(Result.parse(text, codecs).unwrap().unwrap().unwrap()).toEqual(
+        date
+      );
+    });
+
+    it("should return an Err for invalid JSON", () => {
+      const result = Result.parse("{ not json");
+      expect(result.isOk).toBe(false);
+      !result.isOk && expect(result.error.path).toBe("$");
+    });
+
+    it("should return an Err for malformed data", () => {
+      const malformed = [null, 5, [], {}, { value: 1 }, { ok: 1, err: 2 }];
+      for (const data of malformed) {
+        const result = Result.fromJSON(data);
+        !result.isOk &&
+          expect(result.error).toEqual({
+            path: "$",
+            message:
+              'Expected an object with exactly one of the keys "ok", "err"',
+          });
+        expect(result.isOk).toBe(false);
+      }
+    });
+
+    it("should return an Err with the path when a codec fails", () => {
+      const result = Result.fromJSON(
+        { ok: { ok: "yesterday" } },
+        { value: Result.codec({ value: Codec.date }) }
+      );
+      !result.isOk && expect(result.error.path).toBe("$.ok.ok");
+
+      const errResult = Result.fromJSON(
+        { err: "1.5" },
+        { error: Codec.bigint }
+      );
+      !errResult.isOk && expect(errResult.error.path).toBe("$.err");
+    });
+  });
+
+  describe("errors", () => {
+    it("should throw an UnwrapError with the error as its cause", () => {
+      const error = new Error("boom");
+      try {
+        Result.err(error).unwrap();
+        expect.unreachable();
+      } catch (thrown) {
+        expect(thrown).toBeInstanceOf(UnwrapError);
+        expect((thrown as UnwrapError).cause).toBe(error);
+      }
+    });
+
+    it("should return the ok value with expect", () => {
+      expect(Result.ok(5).expect("Should be five")).toBe(5);
+    });
+
+    it("should throw the given message with expect on err", () => {
+      const result = Result.err("boom");
+      expect(() => result.expect("Failed to get number")).toThrow(
+        new UnwrapError("Failed to get number")
+      );
+      try {
+        result.expect("Failed to get number");
+      } catch (thrown) {
+        expect((thrown as UnwrapError).cause).toBe("boom");
+      }
+    });
+
+    it("should wrap the error with context", () => {
+      const result = sqrt(-1).context("Failed to calculate hypotenuse");
+
+      const typed: Result<number, ContextError<string>> = result;
+      expect(typed.isOk).toBe(false);
+      if (!typed.isOk) {
+        expect(typed.error).toBeInstanceOf(ContextError);
+        expect(typed.error.message).toBe("Failed to calculate hypotenuse");
+        expect(typed.error.cause).toBe(
+          "Cannot calculate square root of negative number"
+        );
+      }
+    });
+
+    it("should not change an ok value with context", () => {
+      expect(sqrt(4).context("Unused").unwrap()).toBe(2);
+    });
+  });
 });
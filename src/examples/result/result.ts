@@ -9,49 +9,388 @@
  *  The Result type can be used as a type-safe alternative in situations where we might otherwise throw an error.
  */
 
+import { AsyncResult } from "./async-result";
+import { brandVersion, errTag, hasBrand, okTag } from "./brand";
+import { Codec, DecodeError, singleKeyOf } from "./codec";
+import { Members, emptyLike } from "./collection";
+import {
+  InspectArgs,
+  formatVariant,
+  inspectCustom,
+  inspectVariant,
+} from "./debug";
+import { Eq, Ord, compare, equals } from "./equality";
+import { ContextError, UnwrapError } from "./errors";
 import { None, Option, Some } from "./option";
+import { ErrType, OkType } from "./types";
 
-/** A Symbol is a unique and immutable data type that is a primitive value.
- * A symbol's only possible value itself.
+/** The Ok type represents a successful computation, and encapsulates a value of the generic type T.
+ *
+ * Ok and Err are classes, so their methods are defined once on the class prototype and shared by every instance.
+ * Creating an Ok only allocates a single small object, rather than a new set of closures each time.
+ * It also means that `result instanceof Ok` works, though `Result.isOk` is still the recommended check.
  */
-// Here we define two symbols, okTag and errTag - these are used to identify the type of the Result.
-const okTag = Symbol("Ok");
-const errTag = Symbol("Err");
-
-/** The Ok type represents a successful computation, and encapsulates a value of the generic type T. */
-interface Ok<T> {
-  _tag: typeof okTag;
-  isOk: true;
-  value: T;
-  unwrap(): T;
-  unwrapOr<T2>(defaultValue: T2): T;
-  map<T2>(fn: (value: T) => T2): Result<T2, never>;
-  mapErr<E2>(fn: (error: never) => E2): Result<T, E2>;
-  andThen<T2, E2>(fn: (value: T) => Result<T2, E2>): Result<T2, E2>;
+class Ok<T> {
+  constructor(public value: T) {}
+
+  // Getters are defined on the prototype too, so the tag doesn't take up space on every instance.
+  // The tags are shared by every copy of this code, so that a Result from another copy still passes `isOk`. See `brand.ts`.
+  get _tag(): typeof okTag {
+    return okTag;
+  }
+
+  get _version(): typeof brandVersion {
+    return brandVersion;
+  }
+
+  get isOk(): true {
+    return true;
+  }
+
+  unwrap(): T {
+    return this.value;
+  }
+
+  expect(_message: string): T {
+    return this.value;
+  }
+
+  unwrapOr<T2>(_defaultValue: T2): T {
+    return this.value;
+  }
+
+  unwrapOrElse<T2>(_fn: (error: never) => T2): T {
+    return this.value;
+  }
+
+  // `unwrapErr` and `expectErr` are the opposite of `unwrap` and `expect`, and are mostly useful in tests.
+  unwrapErr(): never {
+    throw new UnwrapError("Cannot unwrapErr an Ok");
+  }
+
+  expectErr(message: string): never {
+    throw new UnwrapError(message);
+  }
+
+  isOkAnd(predicate: (value: T) => boolean): boolean {
+    return predicate(this.value);
+  }
+
+  isErrAnd(_predicate: (error: never) => boolean): false {
+    return false;
+  }
+
+  map<T2>(fn: (value: T) => T2): Ok<T2> {
+    return new Ok(fn(this.value));
+  }
+
+  /** Map the value, or return `defaultValue` if this is an `Err`. */
+  mapOr<D, T2>(_defaultValue: D, fn: (value: T) => T2): T2 {
+    return fn(this.value);
+  }
+
+  /** Map the value with `fn`, or the error with `defaultFn`. Both must return the same kind of thing. */
+  mapOrElse<D, T2>(_defaultFn: (error: never) => D, fn: (value: T) => T2): T2 {
+    return fn(this.value);
+  }
+
+  mapErr<E2>(_fn: (error: never) => E2): Ok<T> {
+    return this;
+  }
+
+  andThen<T2, E2>(fn: (value: T) => Result<T2, E2>): Result<T2, E2> {
+    return fn(this.value);
+  }
+
+  /** Return `other` if this is an `Ok`, otherwise this `Err`. */
+  and<T2, E2>(other: Result<T2, E2>): Result<T2, E2> {
+    return other;
+  }
+
+  /** Return this if it is an `Ok`, otherwise `other`. */
+  or<T2, E2>(_other: Result<T2, E2>): Ok<T> {
+    return this;
+  }
+
+  /** The counterpart of `andThen` for errors. It can be used to recover from an `Err`. */
+  orElse<T2, E2>(_fn: (error: never) => Result<T2, E2>): Ok<T> {
+    return this;
+  }
+
+  /** Remove one level of nesting, turning a `Result<Result<T, E2>, E>` into a `Result<T, E | E2>`.
+   * Like `Option.flatten`, this has a `this` parameter, so it can only be called on a nested Result.
+   */
+  flatten<T2, E1, E2>(this: Result<Result<T2, E2>, E1>): Result<T2, E1 | E2> {
+    return (this as Ok<Result<T2, E2>>).value;
+  }
+
   mapBoth<T2, E2>(
     okFn: (value: T) => T2,
-    errFn: (error: never) => E2
-  ): Result<T2, never>;
-  toOption(): Some<T>;
+    _errFn: (error: never) => E2
+  ): Ok<T2> {
+    return new Ok(okFn(this.value));
+  }
+
+  toOption(): Some<T> {
+    return Option.some(this.value);
+  }
+
+  // `ok` and `err` are Rust's names for converting to an Option, keeping either the value or the error.
+  ok(): Some<T> {
+    return Option.some(this.value);
+  }
+
+  err(): None {
+    return Option.none;
+  }
+
+  /** Swap a `Result<Option<T>, E>` for an `Option<Result<T, E>>`. `Option.transpose` does the opposite. */
+  transpose<T2, E2>(this: Result<Option<T2>, E2>): Option<Result<T2, E2>> {
+    return (this as Ok<Option<T2>>).value.map((value) => new Ok(value));
+  }
+
+  /** Iterate over the value. An `Ok` has one value, and an `Err` has none. */
+  *iter(): Generator<T, void, undefined> {
+    yield this.value;
+  }
+
+  match<R1, R2>(cases: {
+    ok: (value: T) => R1;
+    err: (error: never) => R2;
+  }): R1 {
+    return cases.ok(this.value);
+  }
+
+  context(_message: string): Ok<T> {
+    return this;
+  }
+
+  // `inspect`, `inspectErr` and `tap` call a function for its side effects, such as logging,
+  // and then return the Result unchanged so that a chain can carry on.
+  inspect(fn: (value: T) => void): Ok<T> {
+    fn(this.value);
+    return this;
+  }
+
+  inspectErr(_fn: (error: never) => void): Ok<T> {
+    return this;
+  }
+
+  tap(fn: (result: Ok<T>) => void): Ok<T> {
+    fn(this);
+    return this;
+  }
+
+  /** Check whether `other` is an `Ok` with an equal value. Values are compared with `eqValue`, or by default,
+   * with `Object.is`, apart from nested Results and Options, which are compared by their contents. See `equality.ts`.
+   */
+  equals(
+    other: Result<T, unknown>,
+    eqValue: Eq<T> = equals,
+    _eqError?: Eq<never>
+  ): boolean {
+    return other.isOk && eqValue(this.value, other.value);
+  }
+
+  /** Compare with `other` for sorting. An `Err` comes before an `Ok`, and two `Ok`s are ordered by `ordValue`. */
+  compare(
+    other: Result<T, unknown>,
+    ordValue: Ord<T> = compare,
+    _ordError?: Ord<never>
+  ): number {
+    return other.isOk ? ordValue(this.value, other.value) : 1;
+  }
+
+  toString(): string {
+    return formatVariant("Ok", this.value);
+  }
+
+  [inspectCustom](...args: InspectArgs): string {
+    return inspectVariant("Ok", args, this.value);
+  }
+
+  // Called by `JSON.stringify`. Use `Result.toJSON` to encode the value with a codec.
+  toJSON(): { ok: T } {
+    return { ok: this.value };
+  }
+
+  // An Ok never yields, it just returns its value - so `yield* ok` evaluates to the value.
+  // This iterator is only for `Result.gen`, so spreading an Ok gives an empty array.
+  *[Symbol.iterator](): Generator<never, T, unknown> {
+    return this.value;
+  }
 }
 
 /** The Err type represents a computation that has failed, and encapsulates an error of the generic type E. */
-interface Err<E> {
-  _tag: typeof errTag;
-  isOk: false;
-  error: E;
-  unwrap(): never;
-  unwrapOr<T2>(defaultValue: T2): T2;
-  map<T2>(fn: (value: never) => T2): Result<never, E>;
-  mapErr<E2>(fn: (error: E) => E2): Result<never, E2>;
-  andThen<T2 = never, E2 = never>(
-    fn: (value: never) => Result<T2, E2>
-  ): Result<never, E>;
+class Err<E> {
+  constructor(public error: E) {}
+
+  get _tag(): typeof errTag {
+    return errTag;
+  }
+
+  get _version(): typeof brandVersion {
+    return brandVersion;
+  }
+
+  get isOk(): false {
+    return false;
+  }
+
+  unwrap(): never {
+    throw new UnwrapError("Cannot unwrap Err", { cause: this.error });
+  }
+
+  expect(message: string): never {
+    throw new UnwrapError(message, { cause: this.error });
+  }
+
+  unwrapOr<T2>(defaultValue: T2): T2 {
+    return defaultValue;
+  }
+
+  unwrapOrElse<T2>(fn: (error: E) => T2): T2 {
+    return fn(this.error);
+  }
+
+  unwrapErr(): E {
+    return this.error;
+  }
+
+  expectErr(_message: string): E {
+    return this.error;
+  }
+
+  isOkAnd(_predicate: (value: never) => boolean): false {
+    return false;
+  }
+
+  isErrAnd(predicate: (error: E) => boolean): boolean {
+    return predicate(this.error);
+  }
+
+  map<T2>(_fn: (value: never) => T2): Err<E> {
+    return this;
+  }
+
+  mapOr<D, T2>(defaultValue: D, _fn: (value: never) => T2): D {
+    return defaultValue;
+  }
+
+  mapOrElse<D, T2>(defaultFn: (error: E) => D, _fn: (value: never) => T2): D {
+    return defaultFn(this.error);
+  }
+
+  mapErr<E2>(fn: (error: E) => E2): Err<E2> {
+    return new Err(fn(this.error));
+  }
+
+  andThen<T2, E2>(_fn: (value: never) => Result<T2, E2>): Err<E> {
+    return this;
+  }
+
+  and<T2, E2>(_other: Result<T2, E2>): Err<E> {
+    return this;
+  }
+
+  or<T2, E2>(other: Result<T2, E2>): Result<T2, E2> {
+    return other;
+  }
+
+  orElse<T2, E2>(fn: (error: E) => Result<T2, E2>): Result<T2, E2> {
+    return fn(this.error);
+  }
+
+  flatten(): Err<E> {
+    return this;
+  }
+
   mapBoth<T2, E2>(
-    okFn: (value: never) => T2,
+    _okFn: (value: never) => T2,
     errFn: (error: E) => E2
-  ): Result<never, E2>;
-  toOption(): None;
+  ): Err<E2> {
+    return new Err(errFn(this.error));
+  }
+
+  toOption(): None {
+    return Option.none;
+  }
+
+  ok(): None {
+    return Option.none;
+  }
+
+  err(): Some<E> {
+    return Option.some(this.error);
+  }
+
+  transpose(): Some<Err<E>> {
+    return Option.some(this);
+  }
+
+  *iter(): Generator<never, void, undefined> {}
+
+  match<R1, R2>(cases: {
+    ok: (value: never) => R1;
+    err: (error: E) => R2;
+  }): R2 {
+    return cases.err(this.error);
+  }
+
+  // Wrap the error in a `ContextError`, keeping the original as its `cause`.
+  // Use `formatErrorChain` from `errors.ts` to print the whole chain.
+  context(message: string): Err<ContextError<E>> {
+    return new Err(new ContextError(message, this.error));
+  }
+
+  inspect(_fn: (value: never) => void): Err<E> {
+    return this;
+  }
+
+  inspectErr(fn: (error: E) => void): Err<E> {
+    fn(this.error);
+    return this;
+  }
+
+  tap(fn: (result: Err<E>) => void): Err<E> {
+    fn(this);
+    return this;
+  }
+
+  equals(
+    other: Result<unknown, E>,
+    _eqValue?: Eq<never>,
+    eqError: Eq<E> = equals
+  ): boolean {
+    return !other.isOk && eqError(this.error, other.error);
+  }
+
+  compare(
+    other: Result<unknown, E>,
+    _ordValue?: Ord<never>,
+    ordError: Ord<E> = compare
+  ): number {
+    return other.isOk ? -1 : ordError(this.error, other.error);
+  }
+
+  toString(): string {
+    return formatVariant("Err", this.error);
+  }
+
+  [inspectCustom](...args: InspectArgs): string {
+    return inspectVariant("Err", args, this.error);
+  }
+
+  toJSON(): { err: E } {
+    return { err: this.error };
+  }
+
+  // An Err yields itself, which `Result.gen` returns, without resuming the generator. The return is never reached
+  // inside `Result.gen`, but ends the iterator, so spreading an Err or comparing it with `toEqual` still works.
+  *[Symbol.iterator](): Generator<Err<E>, never, unknown> {
+    yield this;
+    return undefined as never;
+  }
 }
 
 /** The Result type is a tagged union of the Ok and Err types.
@@ -60,78 +399,347 @@ interface Err<E> {
  */
 type Result<T, E> = Ok<T> | Err<E>;
 
-namespace Result {
+/** The wire format of a Result, used when sending it across a JSON boundary.
+ *
+ * An `Ok` is encoded as `{ "ok": value }`, and an `Err` as `{ "err": error }`.
+ * This is plain data, so it is also safe to pass to `structuredClone` or `postMessage`.
+ */
+type ResultJSON = { ok: unknown } | { err: unknown };
+
+/** The codecs used to encode and decode the value and error of a Result. Both default to `Codec.unknown`. */
+interface ResultCodecs<T, E> {
+  value?: Codec<T>;
+  error?: Codec<E>;
+}
+
+/** A collection of Results, either as an array, a tuple, or an object record.
+ * The `| []` looks redundant, but it hints to the type checker that it should infer array literals as tuples,
+ * so that the type at each position is kept.
+ */
+type ResultCollection =
+  | readonly Result<unknown, unknown>[]
+  | []
+  | { readonly [key: string]: Result<unknown, unknown> };
+
+/** Mapped types keep the shape of what they map over, so a tuple stays a tuple and a record stays a record. */
+type OkValues<C> = { -readonly [K in keyof C]: OkType<C[K]> };
+type ErrValues<C> = { -readonly [K in keyof C]: ErrType<C[K]> };
+
+// The functions for working with Results are in a namespace, which is merged with `Result.try` below.
+namespace ResultNamespace {
   export function ok<T>(value: T): Ok<T> {
-    return {
-      _tag: okTag,
-      isOk: true,
-      value,
-      unwrap() {
-        return value;
-      },
-      unwrapOr<T2>(_defaultValue: T2): T {
-        return value;
-      },
-      map<T2>(fn: (value: T) => T2): Result<T2, never> {
-        return Result.ok(fn(value));
-      },
-      mapErr<E2>(_fn: (error: never) => E2): Result<T, E2> {
-        return this as unknown as Result<T, E2>;
-      },
-      andThen<T2, E2>(fn: (value: T) => Result<T2, E2>): Result<T2, E2> {
-        return fn(value);
-      },
-      mapBoth<T2, E2>(
-        okFn: (value: T) => T2,
-        _errFn: (error: never) => E2
-      ): Result<T2, never> {
-        return Result.ok(okFn(value));
-      },
-      toOption(): Some<T> {
-        return Option.some(value);
-      },
-    };
+    return new Ok(value);
   }
 
   export function err<E>(error: E): Err<E> {
+    return new Err(error);
+  }
+
+  /** Create an `AsyncResult` from a promise that may reject.
+   * A resolved value becomes an `Ok`, and a rejection is passed through `mapError` to become an `Err`.
+   *
+   * See `async-result.ts` for the methods available on an `AsyncResult`.
+   */
+  export function fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError: (error: unknown) => E
+  ): AsyncResult<T, E> {
+    return AsyncResult.fromPromise(promise, mapError);
+  }
+
+  /** Wrap a function that may throw, so that it returns a `Result` instead.
+   * A thrown exception is passed through `mapError` to become an `Err`. Without `mapError`, the error type is `unknown`,
+   * since anything can be thrown.
+   *
+   * E.g.
+   * ```ts
+   * const parseJSON = Result.fromThrowable(JSON.parse, (error) => (error as SyntaxError).message);
+   * parseJSON("{"); // Err("Unexpected end of JSON input")
+   * ```
+   */
+  export function fromThrowable<A extends unknown[], T>(
+    fn: (...args: A) => T
+  ): (...args: A) => Result<T, unknown>;
+  export function fromThrowable<A extends unknown[], T, E>(
+    fn: (...args: A) => T,
+    mapError: (error: unknown) => E
+  ): (...args: A) => Result<T, E>;
+  export function fromThrowable<A extends unknown[], T, E>(
+    fn: (...args: A) => T,
+    mapError?: (error: unknown) => E
+  ): (...args: A) => Result<T, unknown> {
+    return (...args) =>
+      mapError
+        ? tryCatch(() => fn(...args), mapError)
+        : tryCatch(() => fn(...args));
+  }
+
+  /** Convert a function that may throw into one that returns a `Result`, with the same parameters.
+   * Anything thrown becomes an `Err`, and as anything can be thrown, the error type is `unknown`.
+   * Use `Result.fromThrowable` to give a function that converts the error.
+   *
+   * E.g.
+   * ```ts
+   * const safeParse = Result.wrap(JSON.parse); // (text: string, reviver?: ...) => Result<any, unknown>
+   * ```
+   */
+  export function wrap<A extends unknown[], T>(
+    fn: (...args: A) => T
+  ): (...args: A) => Result<T, unknown> {
+    return fromThrowable(fn);
+  }
+
+  /** Run a generator function as "do notation" for Results.
+   *
+   * Inside the generator, `yield*` a `Result` to get at its value. If the `Result` is an `Err`,
+   * the generator is stopped and that `Err` is returned. If the generator runs to completion, its return value is wrapped in an `Ok`.
+   * The error type is inferred as the union of the error types of every `Result` that was `yield*`ed.
+   *
+   * E.g.
+   * ```ts
+   * const result = Result.gen(function* () {
+   *   const a = yield* divide(10, 2);
+   *   const b = yield* sqrt(a);
+   *   return a + b;
+   * }); // Result<number, string>
+   * ```
+   *
+   * This is equivalent to `divide(10, 2).andThen((a) => sqrt(a).map((b) => a + b))`, but reads top to bottom,
+   * and intermediate values stay in scope for the rest of the function.
+   */
+  export function gen<Y extends Err<unknown>, T>(
+    fn: () => Generator<Y, T, unknown>
+  ): Result<T, ErrType<Y>> {
+    const iterator = fn();
+    const next = iterator.next();
+    if (next.done) {
+      return Result.ok(next.value);
+    }
+    // Stop the generator, so that any `finally` blocks inside it are run.
+    iterator.return(undefined as never);
+    return next.value as Err<ErrType<Y>>;
+  }
+
+  /** The async version of `Result.gen`.
+   *
+   * Inside the async generator, `yield*` either a `Result` or an `AsyncResult` to get at its value.
+   */
+  export function genAsync<Y extends Err<unknown>, T>(
+    fn: () => AsyncGenerator<Y, T, unknown>
+  ): AsyncResult<T, ErrType<Y>> {
+    const run = async (): Promise<Result<T, ErrType<Y>>> => {
+      const iterator = fn();
+      const next = await iterator.next();
+      if (next.done) {
+        return Result.ok(next.value);
+      }
+      await iterator.return(undefined as never);
+      return next.value as Err<ErrType<Y>>;
+    };
+    return AsyncResult.fromResult(run());
+  }
+
+  /** Combine a collection of Results into a single Result.
+   *
+   * If every Result is an `Ok`, an `Ok` of all the values is returned, in the same shape as the input.
+   * Otherwise the first `Err` is returned.
+   *
+   * E.g.
+   * ```ts
+   * Result.all([Result.ok(1), Result.ok("a")]); // Ok([1, "a"]), typed as Result<[number, string], never>
+   * Result.all({ user: getUser(), org: getOrg() }); // Result<{ user: User; org: Org }, UserError | OrgError>
+   * ```
+   */
+  export function all<C extends ResultCollection>(
+    results: C
+  ): Result<OkValues<C>, ErrType<Members<C>>> {
+    const values = emptyLike(results);
+    for (const [key, result] of Object.entries(results)) {
+      if (!result.isOk) {
+        return result as Err<ErrType<Members<C>>>;
+      }
+      values[key] = result.value;
+    }
+    return Result.ok(values as OkValues<C>);
+  }
+
+  /** Like `Result.all`, but rather than stopping at the first `Err`, every error is collected into an array. */
+  export function allWithAllErrors<C extends ResultCollection>(
+    results: C
+  ): Result<OkValues<C>, ErrType<Members<C>>[]> {
+    const values = emptyLike(results);
+    const errors: ErrType<Members<C>>[] = [];
+    for (const [key, result] of Object.entries(results)) {
+      if (result.isOk) {
+        values[key] = result.value;
+      } else {
+        errors.push(result.error as ErrType<Members<C>>);
+      }
+    }
+    return errors.length > 0
+      ? Result.err(errors)
+      : Result.ok(values as OkValues<C>);
+  }
+
+  /** The opposite of `Result.all`. Returns the first `Ok` in the collection.
+   * If there isn't one, an `Err` of all the errors is returned, in the same shape as the input.
+   */
+  export function any<C extends ResultCollection>(
+    results: C
+  ): Result<OkType<Members<C>>, ErrValues<C>> {
+    const errors = emptyLike(results);
+    for (const [key, result] of Object.entries(results)) {
+      if (result.isOk) {
+        return result as Ok<OkType<Members<C>>>;
+      }
+      errors[key] = result.error;
+    }
+    return Result.err(errors as ErrValues<C>);
+  }
+
+  /** Split an array of Results into the values of the `Ok`s and the errors of the `Err`s, keeping their order. */
+  export function partition<R extends Result<unknown, unknown>>(
+    results: readonly R[]
+  ): { oks: OkType<R>[]; errs: ErrType<R>[] } {
+    const oks: OkType<R>[] = [];
+    const errs: ErrType<R>[] = [];
+    for (const result of results) {
+      if (result.isOk) {
+        oks.push(result.value as OkType<R>);
+      } else {
+        errs.push(result.error as ErrType<R>);
+      }
+    }
+    return { oks, errs };
+  }
+
+  /** Apply a Result-returning function to every member of an array, tuple or record, combining the outcomes like `Result.all`.
+   * The function is not called for any members after the first `Err`.
+   */
+  export function traverse<
+    C extends readonly unknown[] | [] | { readonly [key: string]: unknown },
+    T2,
+    E
+  >(
+    collection: C,
+    fn: (value: Members<C>) => Result<T2, E>
+  ): Result<{ -readonly [K in keyof C]: T2 }, E> {
+    const values = emptyLike(collection);
+    for (const [key, value] of Object.entries(collection)) {
+      const result = fn(value as Members<C>);
+      if (!result.isOk) {
+        return result;
+      }
+      values[key] = result.value;
+    }
+    return Result.ok(values as { -readonly [K in keyof C]: T2 });
+  }
+
+  /** Create a `Codec` for Results, using the given codecs for the value and error.
+   * Because this is a codec itself, it can be nested to encode a Result that holds another Result.
+   */
+  export function codec<T = unknown, E = unknown>(
+    codecs: ResultCodecs<T, E> = {}
+  ): Codec<Result<T, E>> {
+    const valueCodec = (codecs.value ?? Codec.unknown) as Codec<T>;
+    const errorCodec = (codecs.error ?? Codec.unknown) as Codec<E>;
     return {
-      _tag: errTag,
-      isOk: false,
-      error,
-      unwrap() {
-        throw new Error("Cannot unwrap Err");
-      },
-      unwrapOr<T2>(defaultValue: T2): T2 {
-        return defaultValue;
-      },
-      map<T2>(_fn: (value: never) => T2): Result<never, E> {
-        return this;
+      encode(result: Result<T, E>): ResultJSON {
+        return result.isOk
+          ? { ok: valueCodec.encode(result.value) }
+          : { err: errorCodec.encode(result.error) };
       },
-      mapErr<E2>(fn: (error: E) => E2): Result<never, E2> {
-        return Result.err(fn(error));
-      },
-      andThen<T2, E2>(_fn: (value: never) => Result<T2, E2>): Result<never, E> {
-        return this;
-      },
-      mapBoth<T2, E2>(
-        _okFn: (value: never) => T2,
-        errFn: (error: E) => E2
-      ): Result<never, E2> {
-        return Result.err(errFn(error));
-      },
-      toOption(): None {
-        return Option.none;
+      decode(data: unknown, path = "$"): Result<Result<T, E>, DecodeError> {
+        const key = singleKeyOf(data, ["ok", "err"], path);
+        if (!key.isOk) {
+          return key;
+        }
+        const wire = data as Record<string, unknown>;
+        return key.value === "ok"
+          ? valueCodec
+              .decode(wire.ok, `${path}.ok`)
+              .map((value): Result<T, E> => Result.ok(value))
+          : errorCodec
+              .decode(wire.err, `${path}.err`)
+              .map((error): Result<T, E> => Result.err(error));
       },
     };
   }
 
+  /** Encode a Result in its wire format, `{ "ok": value }` or `{ "err": error }`. See `ResultJSON`. */
+  export function toJSON<T, E>(
+    result: Result<T, E>,
+    codecs?: ResultCodecs<T, E>
+  ): ResultJSON {
+    return codec(codecs).encode(result) as ResultJSON;
+  }
+
+  /** Decode a Result from its wire format.
+   * If the data is malformed, an `Err` describing the problem is returned rather than throwing.
+   */
+  export function fromJSON<T = unknown, E = unknown>(
+    data: unknown,
+    codecs?: ResultCodecs<T, E>
+  ): Result<Result<T, E>, DecodeError> {
+    return codec(codecs).decode(data);
+  }
+
+  /** Encode a Result as a JSON string. */
+  export function stringify<T, E>(
+    result: Result<T, E>,
+    codecs?: ResultCodecs<T, E>
+  ): string {
+    return JSON.stringify(toJSON(result, codecs));
+  }
+
+  /** Decode a Result from a JSON string. Invalid JSON is returned as an `Err`, just like malformed data. */
+  export function parse<T = unknown, E = unknown>(
+    text: string,
+    codecs?: ResultCodecs<T, E>
+  ): Result<Result<T, E>, DecodeError> {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      return Result.err({ path: "$", message: (error as Error).message });
+    }
+    return fromJSON(data, codecs);
+  }
+
+  /** Build an `Eq` for Results, from an `Eq` for the value and one for the error. Both default to `equals` from
+   * `equality.ts`. The result can be passed to another builder, to compare nested types such as `Option<Result<T, E>>`.
+   */
+  export function Eq<T, E>(
+    eqValue: Eq<T> = equals,
+    eqError: Eq<E> = equals
+  ): Eq<Result<T, E>> {
+    return (a, b) => a.equals(b, eqValue, eqError);
+  }
+
+  /** Build an `Ord` for Results, which can be passed to `Array.prototype.sort`. An `Err` comes before an `Ok`. */
+  export function Ord<T, E>(
+    ordValue: Ord<T> = compare,
+    ordError: Ord<E> = compare
+  ): Ord<Result<T, E>> {
+    return (a, b) => a.compare(b, ordValue, ordError);
+  }
+
+  /** Check whether any value at all is a Result, E.g. data from another module, or a value typed as `unknown`.
+   *
+   * This recognises Results created by any copy of this code, even in another realm, such as an iframe,
+   * where `instanceof Ok` would be false. See `brand.ts`.
+   */
+  export function is(value: unknown): value is Result<unknown, unknown> {
+    return hasBrand(value, [okTag, errTag]);
+  }
+
   /** The `isOk` function is a type guard that checks if a `Result` is an `Ok`.
    * It returns true if the `Result` is an Ok, and false otherwise.
    * This is a type safe way to check the type of a Result, proving to the type checker that the Result is an Ok,
    * rather than just telling it (E.g. using an assertion like `myResult as Ok<T>`).
    */
   export function isOk<T, E>(result: Result<T, E>): result is Ok<T> {
-    return result._tag === okTag;
+    return hasBrand(result, [okTag]);
   }
 
   /** The `isErr` function is a type guard that checks if a `Result` is an `Err`.
@@ -140,7 +748,7 @@ namespace Result {
    * rather than just telling it (E.g. using an assertion like `myResult as Err<E>`).
    */
   export function isErr<T, E>(result: Result<T, E>): result is Err<E> {
-    return result._tag === errTag;
+    return hasBrand(result, [errTag]);
   }
 
   /** The `assertOk` function is a type guard that `asserts` that a value is an `Ok`  .
@@ -164,7 +772,7 @@ namespace Result {
   export function assertOk<T, E>(
     result: Result<T, E>
   ): asserts result is Ok<T> {
-    if (result._tag !== okTag) {
+    if (!hasBrand(result, [okTag])) {
       throw new TypeError("Expected an Ok, but got an Err");
     }
   }
@@ -173,10 +781,37 @@ namespace Result {
   export function assertErr<T, E>(
     result: Result<T, E>
   ): asserts result is Err<E> {
-    if (result._tag !== errTag) {
+    if (!hasBrand(result, [errTag])) {
       throw new TypeError("Expected an Err, but got an Ok");
     }
   }
 }
 
-export { Result, Ok, Err };
+/** Call `fn`, and return its result as an `Ok`, or anything it throws as an `Err`. This is `Result.try`.
+ *
+ * `try` is a reserved word, so it can't be the name of a function in a namespace. Instead this is added to the namespace
+ * with `Object.assign`, giving a `Result` value that has both.
+ */
+function tryCatch<T>(fn: () => T): Result<T, unknown>;
+function tryCatch<T, E>(
+  fn: () => T,
+  mapError: (error: unknown) => E
+): Result<T, E>;
+function tryCatch<T, E>(
+  fn: () => T,
+  mapError?: (error: unknown) => E
+): Result<T, unknown> {
+  try {
+    return new Ok(fn());
+  } catch (error) {
+    return new Err(mapError ? mapError(error) : error);
+  }
+}
+
+// The explicit type is needed for `Result.assertOk` and `Result.assertErr`, as assertion functions can only be called through names with a declared type.
+const Result: typeof ResultNamespace & { try: typeof tryCatch } = Object.assign(
+  ResultNamespace,
+  { try: tryCatch }
+);
+
+export { Result, Ok, Err, ResultJSON, ResultCodecs };
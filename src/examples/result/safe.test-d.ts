@@ -0,0 +1,58 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { Option } from "./option";
+import { Result } from "./result";
+import {
+  at,
+  decodeURIComponent,
+  env,
+  get,
+  parseInt,
+  parseUrl,
+  prop,
+  safeJsonParse,
+} from "./safe";
+
+describe("safe types", () => {
+  it("should type the errors that each API throws", () => {
+    expectTypeOf(safeJsonParse("1")).toEqualTypeOf<
+      Result<unknown, SyntaxError>
+    >();
+    expectTypeOf(decodeURIComponent("a")).toEqualTypeOf<
+      Result<string, URIError>
+    >();
+    expectTypeOf(parseUrl("a")).toEqualTypeOf<Result<URL, TypeError>>();
+  });
+
+  it("should type lookups by the collection's element type", () => {
+    expectTypeOf(at([1, 2], 0)).toEqualTypeOf<Option<number>>();
+    expectTypeOf(at("ab", 0)).toEqualTypeOf<Option<string>>();
+    expectTypeOf(get(new Map<string, Date>(), "a")).toEqualTypeOf<
+      Option<Date>
+    >();
+    expectTypeOf(parseInt("1")).toEqualTypeOf<Option<number>>();
+    expectTypeOf(env("HOME")).toEqualTypeOf<Option<string>>();
+  });
+
+  it("should type known properties, and unknown ones as unknown", () => {
+    const user = { name: "Ada", age: 36 };
+    const data: unknown = {};
+
+    expectTypeOf(prop(user, "name")).toEqualTypeOf<Option<string>>();
+    expectTypeOf(prop(data, "name")).toEqualTypeOf<Option<unknown>>();
+  });
+
+  it("should not type methods as present", () => {
+    class User {
+      constructor(public name: string) {}
+      greet(): string {
+        return `Hello ${this.name}`;
+      }
+    }
+    const user = new User("Ada");
+
+    expectTypeOf(prop(user, "name")).toEqualTypeOf<Option<string>>();
+    expectTypeOf(prop(user, "greet")).toEqualTypeOf<Option<unknown>>();
+    // @ts-expect-error - the key must be valid for the map
+    get(new Map<string, number>(), 1);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  at,
+  decodeURIComponent,
+  env,
+  get,
+  parseDate,
+  parseFloat,
+  parseInt,
+  parseUrl,
+  prop,
+  safeJsonParse,
+} from "./safe";
+
+describe("safe", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("safeJsonParse", () => {
+    it("should parse valid JSON", () => {
+      expect(safeJsonParse('{"a":[1]}').unwrap()).toEqual({ a: [1] });
+    });
+
+    it("should return the SyntaxError for invalid JSON", () => {
+      const result = safeJsonParse("{");
+
+      !result.isOk && expect(result.error).toBeInstanceOf(SyntaxError);
+      expect(result.isOk).toBe(false);
+    });
+  });
+
+  describe("at", () => {
+    it("should get elements from the start and the end", () => {
+      expect(at([1, 2, 3], 0).unwrap()).toBe(1);
+      expect(at([1, 2, 3], -1).unwrap()).toBe(3);
+      expect(at("abc", 1).unwrap()).toBe("b");
+    });
+
+    it("should return None for an index out of range", () => {
+      expect(at([1, 2, 3], 3).isSome).toBe(false);
+      expect(at([1, 2, 3], -4).isSome).toBe(false);
+      expect(at([1, 2, 3], 0.5).isSome).toBe(false);
+    });
+
+    it("should return Some for an undefined element", () => {
+      expect(at([undefined], 0).isSome).toBe(true);
+    });
+  });
+
+  describe("get", () => {
+    it("should get the value for a key", () => {
+      const map = new Map([["a", 1]]);
+
+      expect(get(map, "a").unwrap()).toBe(1);
+      expect(get(map, "b").isSome).toBe(false);
+    });
+
+    it("should return Some for a key mapped to undefined", () => {
+      const key = {};
+      const map = new WeakMap([[key, undefined]]);
+
+      expect(get(map, key).isSome).toBe(true);
+      expect(get(map, {}).isSome).toBe(false);
+    });
+  });
+
+  describe("prop", () => {
+    it("should get an own property", () => {
+      const object: Record<string, number> = { a: 1 };
+
+      expect(prop(object, "a").unwrap()).toBe(1);
+      expect(prop(object, "b").isSome).toBe(false);
+    });
+
+    it("should not get inherited properties", () => {
+      expect(prop({}, "toString").isSome).toBe(false);
+      expect(prop(JSON.parse('{"__proto__":1}'), "__proto__").unwrap()).toBe(1);
+    });
+
+    it("should return None for a value that isn't an object", () => {
+      expect(prop(null, "a").isSome).toBe(false);
+      expect(prop("text", "length").isSome).toBe(false);
+    });
+  });
+
+  describe("parseInt", () => {
+    it("should parse integers, like the built-in", () => {
+      expect(parseInt("42").unwrap()).toBe(42);
+      expect(parseInt("12px").unwrap()).toBe(12);
+      expect(parseInt("ff", 16).unwrap()).toBe(255);
+    });
+
+    it("should return None for NaN", () => {
+      expect(parseInt("px").isSome).toBe(false);
+      expect(parseInt("2", 2).isSome).toBe(false);
+    });
+  });
+
+  describe("parseFloat", () => {
+    it("should parse numbers, and return None for NaN", () => {
+      expect(parseFloat("1.5e3").unwrap()).toBe(1500);
+      expect(parseFloat("Infinity").unwrap()).toBe(Infinity);
+      expect(parseFloat("").isSome).toBe(false);
+    });
+  });
+
+  describe("parseDate", () => {
+    it("should parse date strings and timestamps", () => {
+      expect(parseDate("2024-02-29T00:00:00Z").unwrap().getTime()).toBe(
+        Date.UTC(2024, 1, 29)
+      );
+      expect(parseDate(0).unwrap().getTime()).toBe(0);
+    });
+
+    it("should return None for an invalid date", () => {
+      expect(parseDate("not a date").isSome).toBe(false);
+      expect(parseDate(NaN).isSome).toBe(false);
+    });
+  });
+
+  describe("decodeURIComponent", () => {
+    it("should decode a component", () => {
+      expect(decodeURIComponent("a%20b%2Fc").unwrap()).toBe("a b/c");
+    });
+
+    it("should return the URIError for a malformed escape", () => {
+      const result = decodeURIComponent("%E0%A4%A");
+
+      !result.isOk && expect(result.error).toBeInstanceOf(URIError);
+      expect(result.isOk).toBe(false);
+    });
+  });
+
+  describe("parseUrl", () => {
+    it("should parse absolute URLs, and relative URLs with a base", () => {
+      expect(
+        parseUrl("https://example.com/a?b=1").unwrap().searchParams.get("b")
+      ).toBe("1");
+      expect(parseUrl("/a", "https://example.com").unwrap().href).toBe(
+        "https://example.com/a"
+      );
+    });
+
+    it("should return the TypeError for an invalid URL", () => {
+      const result = parseUrl("/a");
+
+      !result.isOk && expect(result.error).toBeInstanceOf(TypeError);
+      expect(result.isOk).toBe(false);
+    });
+  });
+
+  describe("env", () => {
+    it("should get a variable that is set, even if it is empty", () => {
+      vi.stubEnv("SAFE_TEST_PORT", "8080");
+      vi.stubEnv("SAFE_TEST_EMPTY", "");
+
+      expect(env("SAFE_TEST_PORT").unwrap()).toBe("8080");
+      expect(env("SAFE_TEST_EMPTY").unwrap()).toBe("");
+    });
+
+    it("should return None for a variable that is not set", () => {
+      expect(env("SAFE_TEST_MISSING").isSome).toBe(false);
+    });
+  });
+});
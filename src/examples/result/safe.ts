@@ -0,0 +1,139 @@
+/**
+ * Wrappers around everyday JavaScript APIs that return an `Option` or `Result`, instead of `undefined`, `NaN`,
+ * an invalid `Date`, or an exception.
+ *
+ * Most of the unchecked failures in a codebase don't come from its own code, but from built-ins that signal failure
+ * in a way the type checker can't see. `map.get(key)` returns `undefined` both for a missing key and for a stored
+ * `undefined`, `parseInt("abc")` returns a `NaN` that is still a `number`, and `JSON.parse` throws. Each wrapper here
+ * puts the failure in its return type instead:
+ *
+ * - Lookups that may find nothing return an `Option`: `at`, `get`, `prop` and `env`
+ * - Parsing that has only one way to fail returns an `Option`: `parseInt`, `parseFloat` and `parseDate`
+ * - APIs that throw return a `Result` with the error they throw: `safeJsonParse`, `decodeURIComponent` and `parseUrl`
+ *
+ * E.g.
+ * ```ts
+ * const port = env("PORT").andThen((port) => parseInt(port)).unwrapOr(3000);
+ * const name = safeJsonParse(text).toOption().andThen((data) => prop(data, "name"));
+ * ```
+ */
+
+import { Option } from "./option";
+import { Result } from "./result";
+
+/** Anything with `Map`'s `has` and `get`, such as a `Map`, a `WeakMap`, or a cache with the same interface. */
+interface MapLike<K, V> {
+  has(key: K): boolean;
+  get(key: K): V | undefined;
+}
+
+/** Parse JSON, with invalid JSON as an `Err` of the `SyntaxError` that `JSON.parse` throws.
+ * The value is `unknown`, as the JSON could contain anything. Check it with a `Schema` before using it.
+ */
+function safeJsonParse(text: string): Result<unknown, SyntaxError> {
+  return Result.fromThrowable(
+    (text: string): unknown => JSON.parse(text),
+    (error) => error as SyntaxError
+  )(text);
+}
+
+/** The element at `index` of an array, counting back from the end for a negative index, like `Array.prototype.at`.
+ * An element that is `undefined` is still a `Some`, as only an index out of range gives a `None`.
+ */
+function at<T>(array: ArrayLike<T>, index: number): Option<T> {
+  const i = index < 0 ? array.length + index : index;
+  return Number.isInteger(i) && i >= 0 && i < array.length
+    ? Option.some(array[i])
+    : Option.none;
+}
+
+/** The value for `key` in a map. A key mapped to `undefined` is still a `Some`. */
+function get<K, V>(map: MapLike<K, V>, key: K): Option<V> {
+  return map.has(key) ? Option.some(map.get(key) as V) : Option.none;
+}
+
+/** The keys of `T` whose values aren't functions. A method is usually inherited from a class, so `prop` would give
+ * a `None` for it, even though the type has the key.
+ */
+type DataKey<T> = {
+  [K in keyof T]-?: T[K] extends (...args: never) => unknown ? never : K;
+}[keyof T];
+
+/** An object's own property. Inherited properties, such as `toString`, give a `None`, so data from outside can't
+ * reach the prototype. A key that isn't known from the object's type gives an `Option<unknown>`, and so does a method,
+ * as the type can't tell an own function property from one inherited from a class. A getter defined by a class is
+ * inherited too, so it gives a `None`.
+ */
+function prop<T extends object, K extends DataKey<T>>(
+  object: T,
+  key: K
+): Option<T[K]>;
+function prop(object: unknown, key: PropertyKey): Option<unknown>;
+function prop(object: unknown, key: PropertyKey): Option<unknown> {
+  return typeof object === "object" &&
+    object !== null &&
+    Object.hasOwn(object, key)
+    ? Option.some((object as Record<PropertyKey, unknown>)[key])
+    : Option.none;
+}
+
+/** Parse an integer, like the built-in `parseInt`, with `NaN` as a `None`.
+ * As with the built-in, parsing stops at the first character that isn't a digit, so `parseInt("12px")` is `Some(12)`.
+ */
+function parseInt(text: string, radix?: number): Option<number> {
+  return Option.fromPredicate(
+    Number.parseInt(text, radix),
+    (n) => !Number.isNaN(n)
+  );
+}
+
+/** Parse a decimal number, like the built-in `parseFloat`, with `NaN` as a `None`. */
+function parseFloat(text: string): Option<number> {
+  return Option.fromPredicate(Number.parseFloat(text), (n) => !Number.isNaN(n));
+}
+
+/** Create a `Date` from a date string or a timestamp, with an invalid date as a `None`. */
+function parseDate(value: string | number): Option<Date> {
+  return Option.fromPredicate(
+    new Date(value),
+    (date) => !Number.isNaN(date.getTime())
+  );
+}
+
+/** Decode a URI component, with a malformed escape sequence, such as `"%E0%A4%A"`, as an `Err`. */
+function decodeURIComponent(text: string): Result<string, URIError> {
+  return Result.fromThrowable(
+    globalThis.decodeURIComponent,
+    (error) => error as URIError
+  )(text);
+}
+
+/** Create a `URL`, with an invalid URL as an `Err`. A relative URL needs a `base` to resolve it against. */
+function parseUrl(
+  url: string | URL,
+  base?: string | URL
+): Result<URL, TypeError> {
+  return Result.fromThrowable(
+    () => new URL(url, base),
+    (error) => error as TypeError
+  )();
+}
+
+/** An environment variable. A variable that is set to an empty string is still a `Some`. */
+function env(name: string): Option<string> {
+  return Option.fromNullable(process.env[name]);
+}
+
+export {
+  safeJsonParse,
+  at,
+  get,
+  prop,
+  parseInt,
+  parseFloat,
+  parseDate,
+  decodeURIComponent,
+  parseUrl,
+  env,
+  MapLike,
+};
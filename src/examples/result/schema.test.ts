@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import { Schema, ValidationError } from "./schema";
+import { Option } from "./option";
+import { Result } from "./result";
+
+describe("Schema", () => {
+  // Helper to get the errors out of a parse result
+  const errorsOf = <T>(result: Result<T, ValidationError[]>) =>
+    result.isOk ? [] : result.error;
+
+  describe("primitives", () => {
+    it("should parse a string", () => {
+      expect(Schema.string().parse("a").unwrap()).toBe("a");
+    });
+
+    it("should parse a number", () => {
+      expect(Schema.number().parse(1.5).unwrap()).toBe(1.5);
+    });
+
+    it("should reject NaN", () => {
+      expect(errorsOf(Schema.number().parse(NaN))).toEqual([
+        {
+          path: "$",
+          expected: "number",
+          received: "NaN",
+          message: "Expected number, received NaN",
+        },
+      ]);
+    });
+
+    it("should parse a boolean", () => {
+      expect(Schema.boolean().parse(false).unwrap()).toBe(false);
+    });
+
+    it("should describe what was received", () => {
+      const schema = Schema.string();
+      expect(errorsOf(schema.parse(null))[0].received).toBe("null");
+      expect(errorsOf(schema.parse([]))[0].received).toBe("array");
+      expect(errorsOf(schema.parse(1))[0].received).toBe("number");
+    });
+
+    it("should parse a literal", () => {
+      const schema = Schema.literal("admin");
+      const typed: Result<"admin", ValidationError[]> = schema.parse("admin");
+      expect(typed.unwrap()).toBe("admin");
+      expect(errorsOf(schema.parse("user"))[0].expected).toBe('"admin"');
+    });
+  });
+
+  describe("optional", () => {
+    it("should parse undefined as None", () => {
+      const option = Schema.optional(Schema.string()).parse(undefined);
+      expect(Option.isNone(option.unwrap())).toBe(true);
+    });
+
+    it("should parse a value as Some", () => {
+      const option = Schema.optional(Schema.string()).parse("a");
+      expect(option.unwrap().unwrap()).toBe("a");
+    });
+
+    it("should reject an invalid value", () => {
+      const result = Schema.optional(Schema.string()).parse(1);
+      expect(errorsOf(result)[0].expected).toBe("string");
+    });
+  });
+
+  describe("array", () => {
+    it("should parse an array", () => {
+      const result = Schema.array(Schema.number()).parse([1, 2]);
+      expect(result.unwrap()).toEqual([1, 2]);
+    });
+
+    it("should collect the errors from every item", () => {
+      const result = Schema.array(Schema.number()).parse([1, "a", "b"]);
+      expect(errorsOf(result).map((e) => e.path)).toEqual(["$[1]", "$[2]"]);
+    });
+
+    it("should reject a value that isn't an array", () => {
+      const result = Schema.array(Schema.number()).parse({});
+      expect(errorsOf(result)[0].message).toBe(
+        "Expected array, received object"
+      );
+    });
+  });
+
+  describe("tuple", () => {
+    const schema = Schema.tuple(Schema.string(), Schema.number());
+
+    it("should parse a tuple", () => {
+      const typed: Result<[string, number], ValidationError[]> = schema.parse([
+        "a",
+        1,
+      ]);
+      expect(typed.unwrap()).toEqual(["a", 1]);
+    });
+
+    it("should reject an array of the wrong length", () => {
+      expect(errorsOf(schema.parse(["a"]))[0].expected).toBe(
+        "[string, number]"
+      );
+    });
+
+    it("should collect the errors from every position", () => {
+      expect(errorsOf(schema.parse([1, "a"])).map((e) => e.path)).toEqual([
+        "$[0]",
+        "$[1]",
+      ]);
+    });
+  });
+
+  describe("object", () => {
+    const User = Schema.object({
+      name: Schema.string(),
+      age: Schema.number(),
+      email: Schema.optional(Schema.string()),
+    });
+
+    it("should parse an object, and infer its type", () => {
+      const result = User.parse({ name: "Ferris", age: 8, extra: true });
+
+      const typed: Result<
+        { name: string; age: number; email: Option<string> },
+        ValidationError[]
+      > = result;
+      const user = typed.unwrap();
+      expect(user.name).toBe("Ferris");
+      expect(user.age).toBe(8);
+      expect(Option.isNone(user.email)).toBe(true);
+      expect("extra" in user).toBe(false);
+    });
+
+    it("should collect every error, with paths", () => {
+      const result = User.parse({ age: "8", email: 5 });
+      expect(errorsOf(result)).toEqual([
+        {
+          path: "$.name",
+          expected: "string",
+          received: "undefined",
+          message: "Expected string, received undefined",
+        },
+        {
+          path: "$.age",
+          expected: "number",
+          received: "string",
+          message: "Expected number, received string",
+        },
+        {
+          path: "$.email",
+          expected: "string",
+          received: "number",
+          message: "Expected string, received number",
+        },
+      ]);
+    });
+
+    it("should build paths through nested schemas", () => {
+      const Team = Schema.object({ members: Schema.array(User) });
+      const result = Team.parse({ members: [{ name: "a", age: 1 }, {}] });
+      expect(errorsOf(result).map((e) => e.path)).toEqual([
+        "$.members[1].name",
+        "$.members[1].age",
+      ]);
+    });
+
+    it("should reject a value that isn't an object", () => {
+      expect(errorsOf(User.parse([]))[0].received).toBe("array");
+    });
+  });
+
+  describe("record", () => {
+    const schema = Schema.record(Schema.number());
+
+    it("should parse a record", () => {
+      expect(schema.parse({ a: 1, b: 2 }).unwrap()).toEqual({ a: 1, b: 2 });
+    });
+
+    it("should collect the errors from every value", () => {
+      expect(errorsOf(schema.parse({ a: "1", b: 2 }))[0].path).toBe("$.a");
+    });
+
+    it("should reject a value that isn't an object", () => {
+      expect(errorsOf(schema.parse(null))[0].received).toBe("null");
+    });
+  });
+
+  describe("union", () => {
+    const schema = Schema.union(Schema.string(), Schema.literal(1));
+
+    it("should parse a value accepted by any member", () => {
+      const typed: Result<string | 1, ValidationError[]> = schema.parse(1);
+      expect(typed.unwrap()).toBe(1);
+      expect(schema.parse("a").unwrap()).toBe("a");
+    });
+
+    it("should reject a value accepted by no members", () => {
+      expect(errorsOf(schema.parse(2))[0].expected).toBe("string | 1");
+    });
+  });
+
+  describe("refine", () => {
+    const schema = Schema.number().refine((n) => n > 0, "a positive number");
+
+    it("should accept a value that passes the check", () => {
+      expect(schema.parse(1).unwrap()).toBe(1);
+    });
+
+    it("should reject a value that fails the check", () => {
+      expect(errorsOf(schema.parse(-1))[0].message).toBe(
+        "Expected a positive number, received number"
+      );
+    });
+
+    it("should not run the check on an invalid value", () => {
+      expect(errorsOf(schema.parse("a"))[0].expected).toBe("number");
+    });
+  });
+
+  describe("transform", () => {
+    it("should convert a valid value", () => {
+      const schema = Schema.string().transform((s) => new Date(s));
+      const date = schema.parse("2024-08-01T00:00:00.000Z").unwrap();
+      expect(date.getUTCFullYear()).toBe(2024);
+    });
+
+    it("should not convert an invalid value", () => {
+      const schema = Schema.string().transform((s) => s.length);
+      expect(schema.parse(1).isOk).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * A small runtime schema builder, for validating untrusted data such as parsed JSON.
+ *
+ * A `Schema<T>` knows how to check that an `unknown` value is a `T`. Calling `parse` returns a `Result`,
+ * which is an `Ok<T>` if the data was valid, or an `Err` holding every problem that was found - not just the first one.
+ *
+ * The type `T` is inferred from how the schema is built, so there is no need to write the type out twice.
+ *
+ * E.g.
+ * ```ts
+ * const User = Schema.object({
+ *   name: Schema.string(),
+ *   age: Schema.number().refine((age) => age >= 0, "a non-negative number"),
+ *   email: Schema.optional(Schema.string()),
+ * });
+ *
+ * type User = Schema.Infer<typeof User>; // { name: string; age: number; email: Option<string> }
+ *
+ * User.parse(JSON.parse(body)); // Result<User, ValidationError[]>
+ * ```
+ */
+
+import { Option } from "./option";
+import { Err, Result } from "./result";
+
+/** A description of a single problem found while validating some data.
+ * The `path` is a JSON path to where the problem was, E.g. `$.users[0].name`.
+ */
+interface ValidationError {
+  path: string;
+  expected: string;
+  received: string;
+  message: string;
+}
+
+interface Schema<T> {
+  /** A short description of what this schema accepts, used in error messages. E.g. `string`. */
+  expected: string;
+  parse(data: unknown): Result<T, ValidationError[]>;
+  /** Validate `data` found at `path`. Schemas that contain other schemas use this to build up the path. */
+  validate(data: unknown, path: string): Result<T, ValidationError[]>;
+  /** Add an extra check to a schema. `expected` describes what the check accepts, E.g. `a positive number`. */
+  refine(predicate: (value: T) => boolean, expected: string): Schema<T>;
+  /** Convert a value after it has been validated. */
+  transform<T2>(fn: (value: T) => T2): Schema<T2>;
+}
+
+/** A tuple of schemas, inferred as a tuple thanks to the `| []`. See `ResultCollection` in `result.ts`. */
+type Schemas = readonly Schema<unknown>[] | [];
+
+namespace Schema {
+  /** The type of value that a schema accepts. E.g. `Schema.Infer<typeof User>`. */
+  export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+  /** Describe the type of some data for an error message. */
+  function describe(data: unknown): string {
+    if (data === null) {
+      return "null";
+    }
+    if (Array.isArray(data)) {
+      return "array";
+    }
+    if (typeof data === "number" && isNaN(data)) {
+      return "NaN";
+    }
+    return typeof data;
+  }
+
+  function invalid(
+    path: string,
+    expected: string,
+    data: unknown
+  ): Err<ValidationError[]> {
+    const received = describe(data);
+    return Result.err([
+      {
+        path,
+        expected,
+        received,
+        message: `Expected ${expected}, received ${received}`,
+      },
+    ]);
+  }
+
+  /** Build a schema from a validation function, adding the methods that every schema shares. */
+  function schema<T>(
+    expected: string,
+    validate: (data: unknown, path: string) => Result<T, ValidationError[]>
+  ): Schema<T> {
+    return {
+      expected,
+      validate,
+      parse(data: unknown): Result<T, ValidationError[]> {
+        return validate(data, "$");
+      },
+      refine(predicate: (value: T) => boolean, refined: string): Schema<T> {
+        return schema(refined, (data, path) =>
+          validate(data, path).andThen(
+            (value): Result<T, ValidationError[]> =>
+              predicate(value) ? Result.ok(value) : invalid(path, refined, data)
+          )
+        );
+      },
+      transform<T2>(fn: (value: T) => T2): Schema<T2> {
+        return schema(expected, (data, path) => validate(data, path).map(fn));
+      },
+    };
+  }
+
+  /** Build a schema for a primitive type, checked with a type guard. */
+  function primitive<T>(
+    expected: string,
+    guard: (data: unknown) => data is T
+  ): Schema<T> {
+    return schema(expected, (data, path) =>
+      guard(data) ? Result.ok(data) : invalid(path, expected, data)
+    );
+  }
+
+  export function string(): Schema<string> {
+    return primitive(
+      "string",
+      (data): data is string => typeof data === "string"
+    );
+  }
+
+  /** Accepts any number except `NaN`. */
+  export function number(): Schema<number> {
+    return primitive(
+      "number",
+      (data): data is number => typeof data === "number" && !isNaN(data)
+    );
+  }
+
+  export function boolean(): Schema<boolean> {
+    return primitive(
+      "boolean",
+      (data): data is boolean => typeof data === "boolean"
+    );
+  }
+
+  /** Accepts exactly one value. The type parameter `L` is inferred as the literal type, E.g. `"admin"` rather than `string`. */
+  export function literal<L extends string | number | boolean | null>(
+    value: L
+  ): Schema<L> {
+    return primitive(
+      JSON.stringify(value),
+      (data): data is L => data === value
+    );
+  }
+
+  /** Accepts a missing (`undefined`) value as `None`, and anything the inner schema accepts as a `Some`. */
+  export function optional<T>(inner: Schema<T>): Schema<Option<T>> {
+    return schema<Option<T>>(`optional ${inner.expected}`, (data, path) =>
+      data === undefined
+        ? Result.ok(Option.none)
+        : inner.validate(data, path).map((value) => Option.some(value))
+    );
+  }
+
+  export function array<T>(items: Schema<T>): Schema<T[]> {
+    return schema("array", (data, path) => {
+      if (!Array.isArray(data)) {
+        return invalid(path, "array", data);
+      }
+      return collect(
+        data.map((item, i) => items.validate(item, `${path}[${i}]`))
+      );
+    });
+  }
+
+  /** Accepts an array with exactly one item for each schema. */
+  export function tuple<S extends Schemas>(
+    ...schemas: S
+  ): Schema<{ -readonly [K in keyof S]: Infer<S[K]> }> {
+    const expected = `[${schemas.map((s) => s.expected).join(", ")}]`;
+    return schema(expected, (data, path) => {
+      if (!Array.isArray(data) || data.length !== schemas.length) {
+        return invalid(path, expected, data);
+      }
+      return collect(
+        schemas.map((s, i) => s.validate(data[i], `${path}[${i}]`))
+      ) as Result<{ -readonly [K in keyof S]: Infer<S[K]> }, ValidationError[]>;
+    });
+  }
+
+  /** Accepts an object with the given keys. Any other keys are dropped from the parsed value. */
+  export function object<S extends { [key: string]: Schema<unknown> }>(
+    shape: S
+  ): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    return schema("object", (data, path) => {
+      if (!isObject(data)) {
+        return invalid(path, "object", data);
+      }
+      return collectEntries(
+        Object.entries(shape).map(([key, s]) => [
+          key,
+          s.validate(data[key], `${path}.${key}`),
+        ])
+      ) as Result<{ [K in keyof S]: Infer<S[K]> }, ValidationError[]>;
+    });
+  }
+
+  /** Accepts an object with any keys, where every value is accepted by the `values` schema. */
+  export function record<T>(values: Schema<T>): Schema<Record<string, T>> {
+    return schema("object", (data, path) => {
+      if (!isObject(data)) {
+        return invalid(path, "object", data);
+      }
+      return collectEntries(
+        Object.entries(data).map(([key, value]) => [
+          key,
+          values.validate(value, `${path}.${key}`),
+        ])
+      );
+    });
+  }
+
+  /** Accepts anything that any of the schemas accept, trying them in order. */
+  export function union<S extends [Schema<unknown>, ...Schema<unknown>[]]>(
+    ...schemas: S
+  ): Schema<Infer<S[number]>> {
+    const expected = schemas.map((s) => s.expected).join(" | ");
+    return schema(expected, (data, path) => {
+      for (const s of schemas) {
+        const result = s.validate(data, path);
+        if (result.isOk) {
+          return result as Result<Infer<S[number]>, ValidationError[]>;
+        }
+      }
+      return invalid(path, expected, data);
+    });
+  }
+
+  function isObject(data: unknown): data is Record<string, unknown> {
+    return typeof data === "object" && data !== null && !Array.isArray(data);
+  }
+
+  /** Combine the results of validating each item of an array, keeping every error from every item. */
+  function collect<T>(
+    results: Result<T, ValidationError[]>[]
+  ): Result<T[], ValidationError[]> {
+    const { oks, errs } = Result.partition(results);
+    return errs.length > 0 ? Result.err(errs.flat()) : Result.ok(oks);
+  }
+
+  /** Like `collect`, but for the entries of an object. */
+  function collectEntries<T>(
+    entries: [string, Result<T, ValidationError[]>][]
+  ): Result<Record<string, T>, ValidationError[]> {
+    const keys = entries.map(([key]) => key);
+    return collect(entries.map(([, result]) => result)).map((values) =>
+      Object.fromEntries(values.map((value, i) => [keys[i], value]))
+    );
+  }
+}
+
+export { Schema, ValidationError };
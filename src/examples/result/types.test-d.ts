@@ -0,0 +1,112 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { AsyncResult } from "./async-result";
+import { Option } from "./option";
+import { Err, Ok, Result } from "./result";
+import {
+  ErrType,
+  FlattenResult,
+  MergeErrors,
+  OkType,
+  ResultReturnType,
+  SomeType,
+  UnwrapResults,
+} from "./types";
+
+// These tests are only type checked, and never run. See `result.test-d.ts`.
+
+type User = { name: string };
+type NotFound = { kind: "NotFound" };
+type Timeout = { kind: "Timeout" };
+
+describe("type helpers", () => {
+  it("should extract the value and error types", () => {
+    expectTypeOf<OkType<Result<User, NotFound>>>().toEqualTypeOf<User>();
+    expectTypeOf<ErrType<Result<User, NotFound>>>().toEqualTypeOf<NotFound>();
+    expectTypeOf<SomeType<Option<User>>>().toEqualTypeOf<User>();
+  });
+
+  it("should distribute over unions", () => {
+    expectTypeOf<
+      OkType<Ok<string> | Ok<number> | Err<NotFound>>
+    >().toEqualTypeOf<string | number>();
+    expectTypeOf<
+      ErrType<Ok<string> | Err<NotFound> | Err<Timeout>>
+    >().toEqualTypeOf<NotFound | Timeout>();
+  });
+
+  it("should give never for the other variant", () => {
+    expectTypeOf<OkType<Err<NotFound>>>().toBeNever();
+    expectTypeOf<ErrType<Ok<User>>>().toBeNever();
+    expectTypeOf<SomeType<Option<never>>>().toBeNever();
+  });
+
+  it("should unwrap a tuple of Results", () => {
+    type Results = [Result<User, NotFound>, Result<number, Timeout>];
+    expectTypeOf<UnwrapResults<Results>>().toEqualTypeOf<[User, number]>();
+    expectTypeOf<
+      UnwrapResults<readonly Result<User, NotFound>[]>
+    >().toEqualTypeOf<User[]>();
+    expectTypeOf<MergeErrors<Results>>().toEqualTypeOf<NotFound | Timeout>();
+  });
+
+  it("should match what Result.all returns", () => {
+    const results = [
+      {} as Result<User, NotFound>,
+      {} as Result<number, Timeout>,
+    ] as const;
+    type Results = typeof results;
+    const all = Result.all(results);
+    expectTypeOf<OkType<typeof all>>().toEqualTypeOf<UnwrapResults<Results>>();
+    expectTypeOf<ErrType<typeof all>>().toEqualTypeOf<MergeErrors<Results>>();
+  });
+
+  it("should flatten nested Results", () => {
+    expectTypeOf<
+      FlattenResult<Result<Result<Result<User, NotFound>, Timeout>, string>>
+    >().toEqualTypeOf<Result<User, NotFound | Timeout | string>>();
+    expectTypeOf<FlattenResult<Result<User, NotFound>>>().toEqualTypeOf<
+      Result<User, NotFound>
+    >();
+    expectTypeOf<FlattenResult<Err<NotFound>>>().toEqualTypeOf<
+      Result<never, NotFound>
+    >();
+  });
+
+  it("should get the Result returned by a function", () => {
+    const find = (id: string) =>
+      id === "" ? Result.err<NotFound>({ kind: "NotFound" }) : Result.ok(id);
+    expectTypeOf<ResultReturnType<typeof find>>().toEqualTypeOf<
+      Result<string, NotFound>
+    >();
+
+    type Fetch = (id: string) => Promise<Result<User, Timeout>>;
+    expectTypeOf<ResultReturnType<Fetch>>().toEqualTypeOf<
+      Result<User, Timeout>
+    >();
+
+    type FetchAsync = (id: string) => AsyncResult<User, Timeout>;
+    expectTypeOf<ResultReturnType<FetchAsync>>().toEqualTypeOf<
+      Result<User, Timeout>
+    >();
+  });
+});
+
+describe("Result.wrap", () => {
+  it("should keep the parameters, and return a Result", () => {
+    const divide = (a: number, b: number): number => a / b;
+    expectTypeOf(Result.wrap(divide)).toEqualTypeOf<
+      (a: number, b: number) => Result<number, unknown>
+    >();
+  });
+
+  it("should keep optional parameters", () => {
+    const greet = (name: string, greeting?: string) =>
+      `${greeting ?? "Hello"}, ${name}`;
+    const wrapped = Result.wrap(greet);
+    expectTypeOf(wrapped).parameters.toEqualTypeOf<
+      [name: string, greeting?: string]
+    >();
+    // @ts-expect-error - `name` is required
+    wrapped();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Type-level helpers for Results and Options. These only exist at compile time, and are all computed from other types.
+ *
+ * E.g.
+ * ```ts
+ * declare function getUser(id: string): Result<User, NotFound | Timeout>;
+ *
+ * type U = OkType<ReturnType<typeof getUser>>; // User
+ * type E = ErrType<ReturnType<typeof getUser>>; // NotFound | Timeout
+ * ```
+ */
+
+import { Some } from "./option";
+import { Err, Ok, Result } from "./result";
+
+/** The value type of a Result.
+ *
+ * This is a distributive conditional type: given a union, it is applied to each member separately and the answers are
+ * joined back into a union. So `OkType<Ok<A> | Ok<B> | Err<C>>` is `A | B`, as the `Err` gives `never`.
+ */
+type OkType<R> = R extends Ok<infer T> ? T : never;
+
+/** The error type of a Result. `ErrType<Result<A, B>>` is `B`. */
+type ErrType<R> = R extends Err<infer E> ? E : never;
+
+/** The value type of an Option. `SomeType<Option<A>>` is `A`. */
+type SomeType<O> = O extends Some<infer T> ? T : never;
+
+/** Map a tuple of Results to a tuple of their value types, like `Result.all` does at runtime.
+ * `UnwrapResults<[Result<A, X>, Result<B, Y>]>` is `[A, B]`.
+ *
+ * A mapped type over a tuple keeps it as a tuple, so each position keeps its own type.
+ */
+type UnwrapResults<Rs extends readonly unknown[]> = {
+  -readonly [K in keyof Rs]: OkType<Rs[K]>;
+};
+
+/** The union of the error types of a tuple of Results. `MergeErrors<[Result<A, X>, Result<B, Y>]>` is `X | Y`.
+ * Indexing a tuple with `number` gives a union of its members, and `ErrType` distributes over that union.
+ */
+type MergeErrors<Rs extends readonly unknown[]> = ErrType<Rs[number]>;
+
+/** Remove every level of nesting from a Result, collecting the errors from each level.
+ * `FlattenResult<Result<Result<Result<A, X>, Y>, Z>>` is `Result<A, X | Y | Z>`.
+ *
+ * This is a recursive type, which keeps unwrapping the value type while it is another Result.
+ * The value type is wrapped in a tuple, so that the check isn't distributive. The first check stops `never`
+ * (the value type of an `Err` on its own) from counting as a Result, as `never` extends everything.
+ */
+type FlattenResult<R> = [OkType<R>] extends [never]
+  ? Result<never, ErrType<R>>
+  : [OkType<R>] extends [Result<unknown, unknown>]
+  ? FlattenResult<Result<OkType<OkType<R>>, ErrType<R> | ErrType<OkType<R>>>>
+  : Result<OkType<R>, ErrType<R>>;
+
+/** The Result returned by a function, as a single `Result<T, E>`.
+ *
+ * It also looks inside a function that returns a Promise of a Result, or an `AsyncResult`, as `Awaited` unwraps
+ * anything with a `then` method. The return type is normalised, so a function whose return type is inferred as
+ * `Ok<User> | Err<"NotFound"> | Err<"Timeout">` gives `Result<User, "NotFound" | "Timeout">`.
+ */
+type ResultReturnType<F extends (...args: never[]) => unknown> = Result<
+  OkType<Awaited<ReturnType<F>>>,
+  ErrType<Awaited<ReturnType<F>>>
+>;
+
+export {
+  OkType,
+  ErrType,
+  SomeType,
+  UnwrapResults,
+  MergeErrors,
+  FlattenResult,
+  ResultReturnType,
+};
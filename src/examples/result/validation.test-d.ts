@@ -0,0 +1,59 @@
+import { describe, it, expectTypeOf } from "vitest";
+import { None, Option, Some } from "./option";
+import { Err, Ok, Result } from "./result";
+import { Invalid, NonEmptyArray, Valid, Validation } from "./validation";
+
+// These tests are only type checked, and never run. See `result.test-d.ts`.
+
+declare const name: Validation<string, "NoName">;
+declare const age: Validation<number, "TooYoung">;
+
+describe("Validation types", () => {
+  it("should keep the variant when mapping", () => {
+    expectTypeOf(Validation.valid(1).map(String)).toEqualTypeOf<
+      Valid<string>
+    >();
+    expectTypeOf(Validation.invalid("a").map(String)).toEqualTypeOf<
+      Invalid<string>
+    >();
+    expectTypeOf(name.map((n) => n.length)).toEqualTypeOf<
+      Validation<number, "NoName">
+    >();
+  });
+
+  it("should have at least one error", () => {
+    if (!name.isValid) {
+      expectTypeOf(name.errors).toEqualTypeOf<NonEmptyArray<"NoName">>();
+      expectTypeOf(name.errors[0]).toEqualTypeOf<"NoName">();
+    }
+  });
+
+  it("should combine the value and error types", () => {
+    expectTypeOf(Validation.combine([name, age])).toEqualTypeOf<
+      Validation<[string, number], "NoName" | "TooYoung">
+    >();
+    expectTypeOf(Validation.combine({ name, age })).toEqualTypeOf<
+      Validation<{ name: string; age: number }, "NoName" | "TooYoung">
+    >();
+    expectTypeOf(
+      Validation.map2(name, age, (n, a) => `${n} is ${a}`)
+    ).toEqualTypeOf<Validation<string, "NoName" | "TooYoung">>();
+    Validation.mapN([name, age], (n, a) => {
+      expectTypeOf(n).toEqualTypeOf<string>();
+      expectTypeOf(a).toEqualTypeOf<number>();
+    });
+  });
+
+  it("should convert to Results and Options", () => {
+    expectTypeOf(name.toResult()).toEqualTypeOf<
+      Ok<string> | Err<NonEmptyArray<"NoName">>
+    >();
+    expectTypeOf(name.toOption()).toEqualTypeOf<Some<string> | None>();
+    expectTypeOf(
+      Validation.fromResult({} as Result<number, string>)
+    ).toEqualTypeOf<Validation<number, string>>();
+    expectTypeOf(Validation.fromOption({} as Option<number>, "")).toEqualTypeOf<
+      Validation<number, string>
+    >();
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import { inspect } from "node:util";
+import { brandVersion } from "./brand";
+import { UnwrapError } from "./errors";
+import { Option } from "./option";
+import { Result } from "./result";
+import { Invalid, Valid, Validation } from "./validation";
+
+describe("Validation", () => {
+  // Example checks, for use in the following tests
+  const name = (input: string): Validation<string, string> =>
+    input ? Validation.valid(input) : Validation.invalid("Name is required");
+
+  const age = (input: number): Validation<number, string> =>
+    input >= 18
+      ? Validation.valid(input)
+      : Validation.invalid("Must be an adult");
+
+  describe("classes", () => {
+    it("should create instances of Valid and Invalid", () => {
+      expect(Validation.valid(1)).toBeInstanceOf(Valid);
+      expect(Validation.invalid("a")).toBeInstanceOf(Invalid);
+    });
+
+    it("should use the shared tags and version", () => {
+      expect(Validation.valid(1)._tag).toBe(Symbol.for("what-the-type/Valid"));
+      expect(Validation.invalid("a")._tag).toBe(
+        Symbol.for("what-the-type/Invalid")
+      );
+      expect(Validation.valid(1)._version).toBe(brandVersion);
+      expect(Validation.invalid("a")._version).toBe(brandVersion);
+    });
+
+    it("should hold one or more errors", () => {
+      expect(Validation.invalid("a").errors).toEqual(["a"]);
+      expect(Validation.invalid("a", "b").errors).toEqual(["a", "b"]);
+    });
+
+    it("should print each variant", () => {
+      expect(String(Validation.valid(1))).toBe("Valid(1)");
+      expect(String(Validation.invalid("a"))).toBe('Invalid(["a"])');
+      expect(inspect(Validation.valid(1))).toBe("Valid(1)");
+      expect(inspect(Validation.invalid("a"))).toBe("Invalid([ 'a' ])");
+    });
+  });
+
+  describe("methods", () => {
+    it("should unwrap a Valid, and throw for an Invalid", () => {
+      expect(name("Ada").unwrap()).toBe("Ada");
+      expect(() => name("").unwrap()).toThrow(UnwrapError);
+      expect(name("Ada").unwrapOr("Anonymous")).toBe("Ada");
+      expect(name("").unwrapOr("Anonymous")).toBe("Anonymous");
+    });
+
+    it("should map the value", () => {
+      expect(
+        name("Ada")
+          .map((n) => n.length)
+          .unwrap()
+      ).toBe(3);
+      expect(name("").map((n) => n.length).isValid).toBe(false);
+    });
+
+    it("should map each error", () => {
+      const mapped = Validation.invalid("a", "b").mapErr((e) =>
+        e.toUpperCase()
+      );
+      expect(mapped.errors).toEqual(["A", "B"]);
+      expect(
+        name("Ada")
+          .mapErr((e) => e.length)
+          .unwrap()
+      ).toBe("Ada");
+    });
+
+    it("should handle both cases with match", () => {
+      const describe = (v: Validation<string, string>) =>
+        v.match({
+          valid: (value) => `Hello ${value}`,
+          invalid: (errors) => errors.join(", "),
+        });
+      expect(describe(name("Ada"))).toBe("Hello Ada");
+      expect(describe(name(""))).toBe("Name is required");
+    });
+
+    it("should chain a dependent check with andThen", () => {
+      const short = (n: string) =>
+        n.length <= 3 ? Validation.valid(n) : Validation.invalid("Too long");
+      expect(name("Ada").andThen(short).unwrap()).toBe("Ada");
+      expect(
+        name("Grace")
+          .andThen(short)
+          .match({
+            valid: () => [],
+            invalid: (errors) => errors,
+          })
+      ).toEqual(["Too long"]);
+      expect(
+        name("")
+          .andThen(short)
+          .match({
+            valid: () => [],
+            invalid: (errors) => errors,
+          })
+      ).toEqual(["Name is required"]);
+    });
+  });
+
+  describe("combine", () => {
+    it("should combine a tuple of Valids", () => {
+      const result = Validation.combine([name("Ada"), age(36)]);
+      expect(result.unwrap()).toEqual(["Ada", 36]);
+    });
+
+    it("should combine a record of Valids", () => {
+      const result = Validation.combine({ name: name("Ada"), age: age(36) });
+      expect(result.unwrap()).toEqual({ name: "Ada", age: 36 });
+    });
+
+    it("should keep every error, in order", () => {
+      const result = Validation.combine([
+        name(""),
+        age(36),
+        Validation.invalid("a", "b"),
+        age(12),
+      ]);
+      !result.isValid &&
+        expect(result.errors).toEqual([
+          "Name is required",
+          "a",
+          "b",
+          "Must be an adult",
+        ]);
+    });
+
+    it("should combine an empty collection to a Valid", () => {
+      expect(Validation.combine([]).unwrap()).toEqual([]);
+    });
+  });
+
+  describe("mapN", () => {
+    const person = (name: string, age: number) => ({ name, age });
+
+    it("should pass every value to the function", () => {
+      expect(Validation.map2(name("Ada"), age(36), person).unwrap()).toEqual({
+        name: "Ada",
+        age: 36,
+      });
+      expect(Validation.mapN([name("Ada"), age(36)], person).unwrap()).toEqual({
+        name: "Ada",
+        age: 36,
+      });
+    });
+
+    it("should join the errors from every check", () => {
+      const result = Validation.map2(name(""), age(12), person);
+      !result.isValid &&
+        expect(result.errors).toEqual(["Name is required", "Must be an adult"]);
+    });
+
+    it("should map three and four Validations", () => {
+      const sum3 = Validation.map3(
+        age(18),
+        age(19),
+        age(20),
+        (a, b, c) => a + b + c
+      );
+      const sum4 = Validation.map4(
+        age(18),
+        age(1),
+        age(2),
+        name(""),
+        (a, b, c, d) => `${a + b + c}${d}`
+      );
+      expect(sum3.unwrap()).toBe(57);
+      !sum4.isValid && expect(sum4.errors).toHaveLength(3);
+    });
+  });
+
+  describe("conversions", () => {
+    it("should convert to a Result with every error", () => {
+      expect(name("Ada").toResult().unwrap()).toBe("Ada");
+      expect(Validation.invalid("a", "b").toResult().unwrapErr()).toEqual([
+        "a",
+        "b",
+      ]);
+    });
+
+    it("should round-trip through a Result with fromErrors", () => {
+      const invalid = Validation.invalid("a", "b");
+      const roundTripped = Validation.fromErrors(invalid.toResult());
+      expect(roundTripped).toBeInstanceOf(Invalid);
+      !roundTripped.isValid && expect(roundTripped.errors).toEqual(["a", "b"]);
+      expect(
+        Validation.fromErrors(Validation.valid(1).toResult()).unwrap()
+      ).toBe(1);
+    });
+
+    it("should convert from a Result with a single error", () => {
+      expect(Validation.fromResult(Result.ok(1)).unwrap()).toBe(1);
+      const invalid = Validation.fromResult(Result.err("boom"));
+      !invalid.isValid && expect(invalid.errors).toEqual(["boom"]);
+      expect(invalid.toResult().unwrapErr()).toEqual(["boom"]);
+    });
+
+    it("should convert to and from an Option", () => {
+      expect(name("Ada").toOption().unwrap()).toBe("Ada");
+      expect(name("").toOption()).toBe(Option.none);
+      expect(Validation.fromOption(Option.some(1), "missing").unwrap()).toBe(1);
+      const missing = Validation.fromOption(Option.none, "missing");
+      !missing.isValid && expect(missing.errors).toEqual(["missing"]);
+    });
+  });
+
+  describe("isValid and isInvalid", () => {
+    it("should narrow a Validation", () => {
+      expect(Validation.isValid(name("Ada"))).toBe(true);
+      expect(Validation.isInvalid(name("Ada"))).toBe(false);
+      expect(Validation.isInvalid(name(""))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * The Validation type is like a `Result`, but when independent checks are combined, it keeps every error instead of
+ * stopping at the first one.
+ *
+ * `Result.andThen` has to stop at the first `Err`, as the next step needs the value that the failed step didn't produce.
+ * That is the wrong behaviour for checking a form or a config file, where every field can be checked on its own,
+ * and the user wants to hear about all of the problems at once, not fix them one at a time.
+ *
+ * A `Validation<T, E>` is either a `Valid<T>`, or an `Invalid<E>` holding a non-empty array of errors.
+ * `Validation.combine` and `Validation.map2`, `map3` and so on run every check, and join the errors from all of them.
+ *
+ * E.g.
+ * ```ts
+ * const name = (input: string) => (input ? Validation.valid(input) : Validation.invalid("Name is required"));
+ * const age = (input: number) => (input >= 18 ? Validation.valid(input) : Validation.invalid("Must be an adult"));
+ *
+ * Validation.map2(name(""), age(12), (name, age) => ({ name, age }));
+ * // Invalid(["Name is required", "Must be an adult"])
+ * ```
+ */
+
+import { brandVersion, invalidTag, validTag } from "./brand";
+import { Members, emptyLike } from "./collection";
+import {
+  InspectArgs,
+  formatVariant,
+  inspectCustom,
+  inspectVariant,
+} from "./debug";
+import { UnwrapError } from "./errors";
+import { None, Option, Some } from "./option";
+import { Err, Ok, Result } from "./result";
+
+/** An array with at least one element. An `Invalid` always has a reason for being invalid. */
+type NonEmptyArray<T> = [T, ...T[]];
+
+class Valid<T> {
+  constructor(public value: T) {}
+
+  get _tag(): typeof validTag {
+    return validTag;
+  }
+
+  get _version(): typeof brandVersion {
+    return brandVersion;
+  }
+
+  get isValid(): true {
+    return true;
+  }
+
+  unwrap(): T {
+    return this.value;
+  }
+
+  unwrapOr<T2>(_defaultValue: T2): T {
+    return this.value;
+  }
+
+  map<T2>(fn: (value: T) => T2): Valid<T2> {
+    return new Valid(fn(this.value));
+  }
+
+  /** Map each of the errors. */
+  mapErr<E2>(_fn: (error: never) => E2): Valid<T> {
+    return this;
+  }
+
+  /** Run a check that needs the value, such as checking that a parsed date is in the future.
+   * Like `Result.andThen`, this can't carry on after an `Invalid`, so it doesn't collect errors. Use `combine` for that.
+   */
+  andThen<T2, E2>(fn: (value: T) => Validation<T2, E2>): Validation<T2, E2> {
+    return fn(this.value);
+  }
+
+  match<R1, R2>(cases: {
+    valid: (value: T) => R1;
+    invalid: (errors: NonEmptyArray<never>) => R2;
+  }): R1 {
+    return cases.valid(this.value);
+  }
+
+  toResult(): Ok<T> {
+    return Result.ok(this.value);
+  }
+
+  toOption(): Some<T> {
+    return Option.some(this.value);
+  }
+
+  toString(): string {
+    return formatVariant("Valid", this.value);
+  }
+
+  [inspectCustom](...args: InspectArgs): string {
+    return inspectVariant("Valid", args, this.value);
+  }
+}
+
+class Invalid<E> {
+  constructor(public errors: NonEmptyArray<E>) {}
+
+  get _tag(): typeof invalidTag {
+    return invalidTag;
+  }
+
+  get _version(): typeof brandVersion {
+    return brandVersion;
+  }
+
+  get isValid(): false {
+    return false;
+  }
+
+  unwrap(): never {
+    throw new UnwrapError("Cannot unwrap Invalid", { cause: this.errors });
+  }
+
+  unwrapOr<T2>(defaultValue: T2): T2 {
+    return defaultValue;
+  }
+
+  map<T2>(_fn: (value: never) => T2): Invalid<E> {
+    return this;
+  }
+
+  mapErr<E2>(fn: (error: E) => E2): Invalid<E2> {
+    return new Invalid(this.errors.map(fn) as NonEmptyArray<E2>);
+  }
+
+  andThen<T2, E2>(_fn: (value: never) => Validation<T2, E2>): Invalid<E> {
+    return this;
+  }
+
+  match<R1, R2>(cases: {
+    valid: (value: never) => R1;
+    invalid: (errors: NonEmptyArray<E>) => R2;
+  }): R2 {
+    return cases.invalid(this.errors);
+  }
+
+  /** An `Err` of every error, so `Validation.fromErrors` can turn it back into the same `Invalid`. */
+  toResult(): Err<NonEmptyArray<E>> {
+    return Result.err(this.errors);
+  }
+
+  toOption(): None {
+    return Option.none;
+  }
+
+  toString(): string {
+    return formatVariant("Invalid", this.errors);
+  }
+
+  [inspectCustom](...args: InspectArgs): string {
+    return inspectVariant("Invalid", args, this.errors);
+  }
+}
+
+type Validation<T, E> = Valid<T> | Invalid<E>;
+
+/** A collection of Validations, as an array, a tuple, or an object record. See `ResultCollection` in `result.ts`. */
+type ValidationCollection =
+  | readonly Validation<unknown, unknown>[]
+  | []
+  | { readonly [key: string]: Validation<unknown, unknown> };
+
+type ValidType<V> = V extends Valid<infer T> ? T : never;
+type InvalidType<V> = V extends Invalid<infer E> ? E : never;
+
+type ValidValues<C> = { -readonly [K in keyof C]: ValidType<C[K]> };
+
+namespace Validation {
+  export function valid<T>(value: T): Valid<T> {
+    return new Valid(value);
+  }
+
+  /** An `Invalid` with one or more errors. */
+  export function invalid<E>(error: E, ...errors: E[]): Invalid<E> {
+    return new Invalid([error, ...errors]);
+  }
+
+  /** Convert a Result, with its error as the only error. `Validation.fromResult(result).toResult()` gives back
+   * the same value, or the error in an array.
+   */
+  export function fromResult<T, E>(result: Result<T, E>): Validation<T, E> {
+    return result.isOk ? valid(result.value) : invalid(result.error);
+  }
+
+  /** Convert a Result holding every error, such as one from `toResult`, back to a Validation. */
+  export function fromErrors<T, E>(
+    result: Result<T, NonEmptyArray<E>>
+  ): Validation<T, E> {
+    return result.isOk ? valid(result.value) : new Invalid(result.error);
+  }
+
+  /** Convert an Option, using `error` for a `None`. */
+  export function fromOption<T, E>(
+    option: Option<T>,
+    error: E
+  ): Validation<T, E> {
+    return option.isSome ? valid(option.value) : invalid(error);
+  }
+
+  /** Combine a collection of Validations into a single one, with the values in the same shape as the input.
+   * If any of them are `Invalid`, the result has the errors from all of them, in order.
+   *
+   * E.g.
+   * ```ts
+   * Validation.combine({ name: name(input.name), age: age(input.age) }); // Validation<{ name: string; age: number }, string>
+   * ```
+   */
+  export function combine<C extends ValidationCollection>(
+    validations: C
+  ): Validation<ValidValues<C>, InvalidType<Members<C>>> {
+    const values = emptyLike(validations);
+    const errors: InvalidType<Members<C>>[] = [];
+    for (const [key, validation] of Object.entries(validations)) {
+      if (validation.isValid) {
+        values[key] = validation.value;
+      } else {
+        errors.push(...(validation.errors as InvalidType<Members<C>>[]));
+      }
+    }
+    return errors.length > 0
+      ? new Invalid(errors as NonEmptyArray<InvalidType<Members<C>>>)
+      : valid(values as ValidValues<C>);
+  }
+
+  /** Combine a tuple of Validations, and pass their values to `fn`. The errors are joined as in `combine`. */
+  export function mapN<
+    Vs extends readonly Validation<unknown, unknown>[] | [],
+    R
+  >(
+    validations: Vs,
+    fn: (...values: ValidValues<Vs>) => R
+  ): Validation<R, InvalidType<Vs[number]>> {
+    return combine(validations).map((values) =>
+      fn(...(values as ValidValues<Vs>))
+    );
+  }
+
+  // `map2`, `map3` and `map4` are shorthands for `mapN`, which read a little better with only a few checks.
+
+  export function map2<A, B, E1, E2, R>(
+    a: Validation<A, E1>,
+    b: Validation<B, E2>,
+    fn: (a: A, b: B) => R
+  ): Validation<R, E1 | E2> {
+    return mapN([a, b], fn);
+  }
+
+  export function map3<A, B, C, E1, E2, E3, R>(
+    a: Validation<A, E1>,
+    b: Validation<B, E2>,
+    c: Validation<C, E3>,
+    fn: (a: A, b: B, c: C) => R
+  ): Validation<R, E1 | E2 | E3> {
+    return mapN([a, b, c], fn);
+  }
+
+  export function map4<A, B, C, D, E1, E2, E3, E4, R>(
+    a: Validation<A, E1>,
+    b: Validation<B, E2>,
+    c: Validation<C, E3>,
+    d: Validation<D, E4>,
+    fn: (a: A, b: B, c: C, d: D) => R
+  ): Validation<R, E1 | E2 | E3 | E4> {
+    return mapN([a, b, c, d], fn);
+  }
+
+  export function isValid<T, E>(
+    validation: Validation<T, E>
+  ): validation is Valid<T> {
+    return validation.isValid;
+  }
+
+  export function isInvalid<T, E>(
+    validation: Validation<T, E>
+  ): validation is Invalid<E> {
+    return !validation.isValid;
+  }
+}
+
+export { Validation, Valid, Invalid, NonEmptyArray };
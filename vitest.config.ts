@@ -1,4 +1,4 @@
-import { defineConfig } from "vitest/config";
+import { coverageConfigDefaults, defineConfig } from "vitest/config";
 
 export default defineConfig({
   test: {
@@ -7,8 +7,18 @@ export default defineConfig({
     alias: {
       "~": "./src",
     },
+    // Type check the `*.test-d.ts` files as part of every test run.
+    typecheck: {
+      enabled: true,
+    },
     coverage: {
       reporter: ["text", "json", "html"],
+      // `types.ts` only has types, so there is no code in it to run.
+      exclude: [
+        ...coverageConfigDefaults.exclude,
+        "**/benchmarks/**",
+        "**/result/types.ts",
+      ],
     },
   },
 });